@@ -0,0 +1,255 @@
+import crypto from "crypto";
+import axios from "axios";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { ElicitResultSchema, ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+import { canonicalizeJson, getPluggedinMCPApiKey, getPluggedinMCPApiBaseUrl } from "./utils.js";
+import { logMcpActivity } from "./notification-logger.js";
+import { debugError } from "./debug-log.js";
+
+export interface ApprovalGateOptions {
+  elicitationTimeoutMs: number; // How long to wait for the user to answer an elicitation
+  notificationApprovalTtlMs: number; // How long a posted approval notification can still approve a retry
+}
+
+/**
+ * A tool call waiting for user approval.
+ */
+export interface ApprovalRequest {
+  toolName: string; // Name exposed to the client
+  serverName: string;
+  serverUuid: string;
+  args?: Record<string, unknown>;
+}
+
+interface PendingApproval {
+  approvalId: string;
+  notificationId?: string;
+  createdAt: number;
+}
+
+type HandlerExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+const DEFAULT_OPTIONS: ApprovalGateOptions = {
+  elicitationTimeoutMs: 300000,
+  notificationApprovalTtlMs: 3600000,
+};
+
+// Approval notifications are recognised by this title prefix, so agents cannot complete them
+const APPROVAL_TITLE_PREFIX = "Approval required:";
+
+// Arguments are shown to the user, but very large payloads are cut short
+const MAX_ARGS_PREVIEW_LENGTH = 500;
+
+function describeArgs(args?: Record<string, unknown>): string {
+  const preview = JSON.stringify(args ?? {}, null, 2);
+  return preview.length > MAX_ARGS_PREVIEW_LENGTH ? `${preview.substring(0, MAX_ARGS_PREVIEW_LENGTH)}...` : preview;
+}
+
+/**
+ * Asks the user to approve tool calls before they are forwarded downstream.
+ *
+ * Clients that support elicitation get an elicitation/create request for the call.
+ * For other clients the call is blocked and an approval request is posted to the
+ * Plugged.in notifications; marking that notification as done approves one retry
+ * of the same call (same tool and arguments, same session). The proxy refuses to
+ * mark approval notifications as done or delete them, so only the user can approve.
+ */
+export class ApprovalGate {
+  private options: ApprovalGateOptions = { ...DEFAULT_OPTIONS };
+  private pending = new Map<string, PendingApproval>();
+
+  configure(options: Partial<ApprovalGateOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  /**
+   * Resolves once the call is approved.
+   * @param supportsElicitation - Whether the upstream client declared the elicitation capability
+   * @throws Error if the call was declined, is still awaiting approval, or approval cannot be requested
+   */
+  async requireApproval(request: ApprovalRequest, extra: HandlerExtra, supportsElicitation: boolean): Promise<void> {
+    const approved = supportsElicitation
+      ? await this.elicitApproval(request, extra)
+      : await this.checkNotificationApproval(request, extra);
+
+    logMcpActivity({
+      action: 'tool_approval',
+      serverName: request.serverName,
+      serverUuid: request.serverUuid,
+      itemName: request.toolName,
+      success: approved,
+      errorMessage: approved ? undefined : 'Not approved',
+    }).catch(() => {}); // Ignore notification errors
+
+    if (!approved) {
+      throw new Error(`Tool ${request.toolName} was not approved by the user`);
+    }
+  }
+
+  /**
+   * Guards the notification tools: approval notifications may only be completed or deleted by the user.
+   * @throws Error if the notification is an approval request, or cannot be checked
+   */
+  async assertNotApprovalNotification(notificationId: string): Promise<void> {
+    if ([...this.pending.values()].some((pending) => pending.notificationId === notificationId)) {
+      throw new Error("Approval notifications can only be completed by the user in Plugged.in");
+    }
+
+    const apiKey = getPluggedinMCPApiKey();
+    const baseUrl = getPluggedinMCPApiBaseUrl();
+    if (!apiKey || !baseUrl) {
+      return;
+    }
+    // Also covers approvals posted by other proxies, or before a restart
+    const notification = await this.fetchNotification(baseUrl, apiKey, notificationId);
+    if (notification === undefined) {
+      throw new Error("Could not check whether the notification is an approval request; it was left unchanged");
+    }
+    if (typeof notification?.title === "string" && notification.title.startsWith(APPROVAL_TITLE_PREFIX)) {
+      throw new Error("Approval notifications can only be completed by the user in Plugged.in");
+    }
+  }
+
+  reset(): void {
+    this.pending.clear();
+  }
+
+  private async elicitApproval(request: ApprovalRequest, extra: HandlerExtra): Promise<boolean> {
+    // Sent through extra so the request reaches the session that made the tool call
+    const result = await extra.sendRequest(
+      {
+        method: "elicitation/create",
+        params: {
+          message: `Allow ${request.toolName} on server ${request.serverName} to run with these arguments?\n\n${describeArgs(request.args)}`,
+          requestedSchema: {
+            type: "object",
+            properties: {
+              approve: {
+                type: "boolean",
+                title: "Approve",
+                description: "Run this tool call",
+                default: false,
+              },
+            },
+            required: ["approve"],
+          },
+        },
+      },
+      ElicitResultSchema,
+      { signal: extra.signal, timeout: this.options.elicitationTimeoutMs }
+    );
+
+    return result.action === "accept" && result.content?.approve === true;
+  }
+
+  /**
+   * Approves the call if a matching approval notification was marked as done,
+   * otherwise posts one (once) and reports the call as awaiting approval.
+   */
+  private async checkNotificationApproval(request: ApprovalRequest, extra: HandlerExtra): Promise<boolean> {
+    const apiKey = getPluggedinMCPApiKey();
+    const baseUrl = getPluggedinMCPApiBaseUrl();
+    if (!apiKey || !baseUrl) {
+      throw new Error(
+        `Tool ${request.toolName} requires approval, but the client does not support elicitation and no Pluggedin API key is configured for approval notifications`
+      );
+    }
+
+    this.pruneExpired();
+    const key = crypto
+      .createHash("sha256")
+      .update(canonicalizeJson([extra.sessionId ?? null, request.serverUuid, request.toolName, request.args ?? {}]))
+      .digest("hex");
+
+    const existing = this.pending.get(key);
+    if (existing) {
+      if (await this.isNotificationCompleted(baseUrl, apiKey, existing)) {
+        this.pending.delete(key); // One approval covers one call
+        return true;
+      }
+      throw new Error(
+        `Tool ${request.toolName} is still awaiting approval. Ask the user to approve it in their Plugged.in notifications, then retry this call.`
+      );
+    }
+
+    const approvalId = crypto.randomBytes(4).toString("hex");
+    const title = `${APPROVAL_TITLE_PREFIX} ${request.toolName} [${approvalId}]`;
+    const response = await axios.post(`${baseUrl}/api/notifications/custom`, {
+      title,
+      message: `An agent wants to run ${request.toolName} on server ${request.serverName} with these arguments:\n\n${describeArgs(request.args)}\n\nMark this notification as done to approve one run of this call.`,
+      severity: "WARNING",
+      sendEmail: false,
+    }, {
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        'Content-Type': 'application/json'
+      },
+      timeout: 30000,
+    });
+    const notificationId = response.data?.notification?.id ?? response.data?.id
+      ?? await this.findNotificationId(baseUrl, apiKey, title);
+    this.pending.set(key, { approvalId, notificationId, createdAt: Date.now() });
+
+    throw new Error(
+      `Tool ${request.toolName} requires approval. An approval request was posted to the user's Plugged.in notifications; once the user approves it, retry this call.`
+    );
+  }
+
+  // Only a notification found by its own ID, with this approval's title, can approve the call
+  private async isNotificationCompleted(baseUrl: string, apiKey: string, pending: PendingApproval): Promise<boolean> {
+    pending.notificationId ??= await this.findNotificationId(baseUrl, apiKey, `[${pending.approvalId}]`);
+    if (!pending.notificationId) {
+      return false;
+    }
+    const notification = await this.fetchNotification(baseUrl, apiKey, pending.notificationId);
+    return typeof notification?.title === "string" &&
+      notification.title.startsWith(APPROVAL_TITLE_PREFIX) &&
+      notification.title.includes(`[${pending.approvalId}]`) &&
+      notification.completed === true;
+  }
+
+  // A just-posted notification is among the newest, so the first page of the list is enough
+  private async findNotificationId(baseUrl: string, apiKey: string, titlePart: string): Promise<string | undefined> {
+    try {
+      const response = await axios.get(`${baseUrl}/api/notifications`, {
+        headers: { Authorization: `Bearer ${apiKey}` },
+        timeout: 15000,
+      });
+      const notifications: any[] = response.data?.notifications || [];
+      return notifications.find((notification) =>
+        typeof notification.title === "string" && notification.title.includes(titlePart)
+      )?.id;
+    } catch (error) {
+      debugError("[Approval Gate] Failed to look up approval notification:", error);
+      return undefined;
+    }
+  }
+
+  // The notification, null if it does not exist, or undefined if it could not be fetched
+  private async fetchNotification(baseUrl: string, apiKey: string, notificationId: string): Promise<any> {
+    try {
+      const response = await axios.get(`${baseUrl}/api/notifications/${encodeURIComponent(notificationId)}`, {
+        headers: { Authorization: `Bearer ${apiKey}` },
+        timeout: 15000,
+      });
+      return response.data?.notification ?? response.data ?? null;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        return null;
+      }
+      debugError("[Approval Gate] Failed to fetch notification:", error);
+      return undefined;
+    }
+  }
+
+  private pruneExpired(): void {
+    const now = Date.now();
+    for (const [key, { createdAt }] of this.pending) {
+      if (now - createdAt > this.options.notificationApprovalTtlMs) {
+        this.pending.delete(key);
+      }
+    }
+  }
+}
+
+export const approvalGate = new ApprovalGate();
@@ -0,0 +1,204 @@
+import { debugLog } from "./debug-log.js";
+import { logMcpActivity } from "./notification-logger.js";
+
+/**
+ * closed: calls flow normally while outcomes are recorded
+ * open: calls are rejected immediately until openDurationMs has passed
+ * half-open: a limited number of trial calls decide whether to close or re-open
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  windowSize: number; // Number of most recent calls used to compute the error rate
+  minimumCalls: number; // Calls needed in the window before the breaker can trip
+  errorRateThreshold: number; // Failure ratio (0-1) at which the breaker opens
+  slowCallThresholdMs?: number; // Calls slower than this count as failures; unset, only errors and timeouts do
+  openDurationMs: number; // How long the breaker stays open before allowing a trial call
+  halfOpenMaxCalls: number; // Concurrent trial calls allowed while half-open
+}
+
+export type CircuitTransitionListener = (
+  transition: { serverUuid: string; serverName: string; from: CircuitState; to: CircuitState; reason: string }
+) => void;
+
+const DEFAULT_OPTIONS: CircuitBreakerOptions = {
+  windowSize: 20,
+  minimumCalls: 5,
+  errorRateThreshold: 0.5,
+  openDurationMs: 30000,
+  halfOpenMaxCalls: 1,
+};
+
+/**
+ * Tracks call outcomes for one downstream server and short-circuits calls while it is failing.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private outcomes: boolean[] = []; // true = failure, most recent last
+  private openedAt = 0;
+  private halfOpenInFlight = 0;
+
+  constructor(
+    private serverUuid: string,
+    private serverName: string,
+    private options: CircuitBreakerOptions,
+    private onTransition?: CircuitTransitionListener
+  ) {}
+
+  getState(): CircuitState {
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.options.openDurationMs) {
+      this.transition('half-open', 'Open duration elapsed');
+    }
+    return this.state;
+  }
+
+  /**
+   * Reserves permission for one call. Every successful acquire must be
+   * followed by recordSuccess or recordFailure.
+   */
+  tryAcquire(): boolean {
+    const state = this.getState();
+    if (state === 'closed') {
+      return true;
+    }
+    if (state === 'half-open' && this.halfOpenInFlight < this.options.halfOpenMaxCalls) {
+      this.halfOpenInFlight++;
+      return true;
+    }
+    return false;
+  }
+
+  recordSuccess(durationMs: number): void {
+    if (this.options.slowCallThresholdMs !== undefined && durationMs > this.options.slowCallThresholdMs) {
+      this.recordFailure(durationMs, `Slow call (${durationMs}ms)`);
+      return;
+    }
+
+    if (this.state === 'half-open') {
+      this.halfOpenInFlight = Math.max(0, this.halfOpenInFlight - 1);
+      this.transition('closed', 'Trial call succeeded');
+      return;
+    }
+    this.pushOutcome(false);
+  }
+
+  recordFailure(durationMs: number, reason: string = 'Call failed'): void {
+    if (this.state === 'half-open') {
+      this.halfOpenInFlight = Math.max(0, this.halfOpenInFlight - 1);
+      this.transition('open', `Trial call failed: ${reason}`);
+      return;
+    }
+
+    this.pushOutcome(true);
+    const failures = this.outcomes.filter(Boolean).length;
+    if (
+      this.state === 'closed' &&
+      this.outcomes.length >= this.options.minimumCalls &&
+      failures / this.outcomes.length >= this.options.errorRateThreshold
+    ) {
+      this.transition('open', `${failures}/${this.outcomes.length} recent calls failed (last: ${reason})`);
+    }
+  }
+
+  /**
+   * Releases an acquired call without recording an outcome, e.g. when the caller cancelled it.
+   */
+  release(): void {
+    if (this.state === 'half-open') {
+      this.halfOpenInFlight = Math.max(0, this.halfOpenInFlight - 1);
+    }
+  }
+
+  /**
+   * Milliseconds until an open breaker lets a trial call through.
+   */
+  getRetryAfterMs(): number {
+    if (this.state !== 'open') {
+      return 0;
+    }
+    return Math.max(0, this.options.openDurationMs - (Date.now() - this.openedAt));
+  }
+
+  private pushOutcome(failed: boolean): void {
+    this.outcomes.push(failed);
+    if (this.outcomes.length > this.options.windowSize) {
+      this.outcomes.shift();
+    }
+  }
+
+  private transition(to: CircuitState, reason: string): void {
+    const from = this.state;
+    if (from === to) {
+      return;
+    }
+
+    this.state = to;
+    if (to === 'open') {
+      this.openedAt = Date.now();
+    }
+    if (to === 'closed') {
+      this.outcomes = [];
+    }
+    this.halfOpenInFlight = 0;
+
+    debugLog(`[Circuit Breaker] ${this.serverName}: ${from} -> ${to} (${reason})`);
+    this.onTransition?.({ serverUuid: this.serverUuid, serverName: this.serverName, from, to, reason });
+  }
+}
+
+// Records breaker transitions in the activity log
+const logTransition: CircuitTransitionListener = ({ serverUuid, serverName, from, to, reason }) => {
+  logMcpActivity({
+    action: 'circuit_breaker',
+    serverName,
+    serverUuid,
+    itemName: `${from} -> ${to}`,
+    success: to !== 'open',
+    errorMessage: to === 'open' ? reason : undefined,
+  }).catch(() => {}); // Ignore notification errors
+};
+
+/**
+ * Holds one circuit breaker per downstream server UUID.
+ */
+export class CircuitBreakerRegistry {
+  private breakers = new Map<string, { breaker: CircuitBreaker; optionsKey: string }>();
+  private defaults: CircuitBreakerOptions = { ...DEFAULT_OPTIONS };
+
+  configure(options: Partial<CircuitBreakerOptions>): void {
+    this.defaults = { ...this.defaults, ...options };
+    this.breakers.clear();
+  }
+
+  /**
+   * Returns the breaker for a server, creating it on first use.
+   * Per-server overrides replace the defaults; changing them resets the breaker.
+   */
+  get(serverUuid: string, serverName: string, overrides?: Partial<CircuitBreakerOptions>): CircuitBreaker {
+    const options = { ...this.defaults, ...(overrides || {}) };
+    const optionsKey = JSON.stringify(options);
+
+    const existing = this.breakers.get(serverUuid);
+    if (existing && existing.optionsKey === optionsKey) {
+      return existing.breaker;
+    }
+
+    const breaker = new CircuitBreaker(serverUuid, serverName, options, logTransition);
+    this.breakers.set(serverUuid, { breaker, optionsKey });
+    return breaker;
+  }
+
+  getStates(): Record<string, CircuitState> {
+    const states: Record<string, CircuitState> = {};
+    for (const [serverUuid, { breaker }] of this.breakers) {
+      states[serverUuid] = breaker.getState();
+    }
+    return states;
+  }
+
+  reset(): void {
+    this.breakers.clear();
+  }
+}
+
+export const circuitBreakers = new CircuitBreakerRegistry();
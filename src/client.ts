@@ -3,12 +3,25 @@ import {
   StdioClientTransport,
   StdioServerParameters,
 } from "@modelcontextprotocol/sdk/client/stdio.js";
-import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
-import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { SSEClientTransport, SSEClientTransportOptions } from "@modelcontextprotocol/sdk/client/sse.js";
+import {
+  StreamableHTTPClientTransport,
+  StreamableHTTPClientTransportOptions,
+  StreamableHTTPError,
+} from "@modelcontextprotocol/sdk/client/streamableHttp.js";
 import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { OAuthClientProvider, UnauthorizedError } from "@modelcontextprotocol/sdk/client/auth.js";
 import { ServerParameters } from "./types.js";
 import { createRequire } from 'module';
-import { debugError } from './debug-log.js';
+import { debugError, debugLog } from './debug-log.js';
+import { findExecutable, getBackoffDelay } from './utils.js';
+import { oauthProviders } from './oauth-provider.js';
+import { WebSocketClientTransport } from './websocket-transport.js';
+import { validateUrl } from './security-utils.js';
+import { serverStderrLogs } from './stderr-log.js';
+import { buildSandboxCommand, resolveSandboxConfig } from './sandbox.js';
+import { resolveEnvReferences } from './env-references.js';
+import { Readable } from 'stream';
 // import { container } from './di-container.js'; // Removed DI container
 // import { Logger } from './logging.js'; // Removed Logger type
 
@@ -52,11 +65,72 @@ function validateEnv(env: Record<string, string>): Record<string, string> {
   return validated;
 }
 
+// Wraps a STDIO server command in prlimit to cap its memory and CPU time.
+// Returns undefined if limits are configured but prlimit is not available.
+function applyResourceLimits(
+  command: string,
+  args: string[],
+  limits: ServerParameters['resourceLimits']
+): { command: string; args: string[] } | undefined {
+  if (!limits || (!limits.memoryMb && !limits.cpuSeconds)) {
+    return { command, args };
+  }
+  const prlimit = process.platform === 'linux' ? findExecutable('prlimit') : undefined;
+  if (!prlimit) {
+    return undefined;
+  }
+
+  const limitArgs: string[] = [];
+  if (limits.memoryMb) {
+    // RLIMIT_DATA rather than RLIMIT_AS: runtimes like V8 reserve far more address space than they use
+    limitArgs.push(`--data=${Math.floor(limits.memoryMb * 1024 * 1024)}`);
+  }
+  if (limits.cpuSeconds) {
+    limitArgs.push(`--cpu=${Math.floor(limits.cpuSeconds)}`);
+  }
+  return { command: prlimit, args: [...limitArgs, '--', command, ...args] };
+}
+
+// Options shared by the SSE and Streamable HTTP transports: custom headers plus either
+// the OAuth authorization code flow or a static bearer token
+function createHttpTransportOptions(serverParams: ServerParameters): {
+  requestInit: RequestInit;
+  authProvider?: OAuthClientProvider;
+} {
+  const headers: Record<string, string> = { ...serverParams.headers };
+  if (serverParams.oauth) {
+    // A configured oauthToken is used until it needs refreshing
+    return { requestInit: { headers }, authProvider: oauthProviders.getProvider(serverParams) };
+  }
+  if (serverParams.oauthToken) {
+    headers.Authorization = `Bearer ${serverParams.oauthToken}`;
+  }
+  return { requestInit: { headers } };
+}
+
+// Transport that worked for each AUTO server, so reconnects skip the negotiation
+const negotiatedTransports = new Map<string, 'SSE' | 'STREAMABLE_HTTP'>();
+
+// Per the MCP backwards compatibility guidance, a 4xx answer to the initialize POST
+// means the server only speaks the older HTTP+SSE transport. 401 is left to OAuth.
+function isSseOnlyServerError(error: unknown): boolean {
+  const status = error instanceof StreamableHTTPError
+    ? error.code
+    : error instanceof Error ? Number(/\(HTTP (\d{3})\)/.exec(error.message)?.[1]) : undefined;
+  return status !== undefined && status >= 400 && status < 500 && status !== 401;
+}
+
 export const createPluggedinMCPClient = (
   serverParams: ServerParameters
 ): { client: Client | undefined; transport: Transport | undefined } => {
   let transport: Transport | undefined;
 
+  if (serverParams.type === "AUTO") {
+    // Streamable HTTP first, unless this server was already found to be SSE-only
+    const type = negotiatedTransports.get(serverParams.uuid) ?? "STREAMABLE_HTTP";
+    return createPluggedinMCPClient({ ...serverParams, type });
+  }
+
   // Create the appropriate transport based on server type
   // Default to "STDIO" if type is undefined
   if (!serverParams.type || serverParams.type === "STDIO") {
@@ -66,14 +140,47 @@ export const createPluggedinMCPClient = (
       return { client: undefined, transport: undefined };
     }
 
+    let command = serverParams.command;
+    let args = serverParams.args ? validateArgs(serverParams.args) : [];
+
+    const sandboxConfig = resolveSandboxConfig(serverParams);
+    if (sandboxConfig) {
+      const sandboxed = buildSandboxCommand(command, args, sandboxConfig, serverParams.cwd ?? undefined);
+      if (!sandboxed) {
+        // Never fall back to running an untrusted server unsandboxed
+        debugError(`Cannot sandbox server ${serverParams.name}: bubblewrap (bwrap) is not installed${sandboxConfig.filesystem === 'host' ? ' and unshare is not available' : ''}`);
+        return { client: undefined, transport: undefined };
+      }
+      ({ command, args } = sandboxed);
+    }
+
+    const launch = applyResourceLimits(command, args, serverParams.resourceLimits);
+    if (!launch) {
+      debugError(`Cannot apply resource limits for server ${serverParams.name}: prlimit is not available`);
+      return { client: undefined, transport: undefined };
+    }
+
+    // Resolved on every spawn, so rotated local secrets are picked up by the next restart
+    let env: Record<string, string> | undefined;
+    try {
+      env = serverParams.env ? validateEnv(resolveEnvReferences(serverParams.env)) : undefined;
+    } catch (error) {
+      debugError(`Invalid environment for server ${serverParams.name}: ${error instanceof Error ? error.message : String(error)}`);
+      return { client: undefined, transport: undefined };
+    }
+
     const stdioParams: StdioServerParameters = {
-      command: serverParams.command,
-      args: serverParams.args ? validateArgs(serverParams.args) : undefined,
-      env: serverParams.env ? validateEnv(serverParams.env) : undefined,
-      // Use default values for other optional properties
-      // stderr and cwd will use their default values
+      command: launch.command,
+      args: launch.args,
+      env,
+      cwd: serverParams.cwd ?? undefined,
+      stderr: "pipe", // Captured per server, see stderr-log.ts
     };
-    transport = new StdioClientTransport(stdioParams);
+    const stdioTransport = new StdioClientTransport(stdioParams);
+    if (stdioTransport.stderr) {
+      serverStderrLogs.attach(serverParams.uuid, stdioTransport.stderr as Readable);
+    }
+    transport = stdioTransport;
   } else if (serverParams.type === "SSE" && serverParams.url) {
     // Validate URL before use
     try {
@@ -83,7 +190,9 @@ export const createPluggedinMCPClient = (
         debugError(`Invalid protocol for SSE server ${serverParams.name}: ${url.protocol}`);
         return { client: undefined, transport: undefined };
       }
-      transport = new SSEClientTransport(url);
+      // The SDK sends requestInit headers with the event stream GET as well as the message POSTs
+      const transportOptions: SSEClientTransportOptions = createHttpTransportOptions(serverParams);
+      transport = new SSEClientTransport(url, transportOptions);
     } catch (error) {
       debugError(`Invalid URL for SSE server ${serverParams.name}: ${serverParams.url}`);
       return { client: undefined, transport: undefined };
@@ -98,59 +207,33 @@ export const createPluggedinMCPClient = (
         return { client: undefined, transport: undefined };
       }
       
-      // Create transport options
-      const transportOptions: any = {
-        requestInit: {}
-      };
-      
-      // Add headers if provided
-      if (serverParams.headers) {
-        transportOptions.requestInit.headers = serverParams.headers;
-      }
+      const transportOptions: StreamableHTTPClientTransportOptions = createHttpTransportOptions(serverParams);
       
       // Add session ID if provided
       if (serverParams.sessionId) {
         transportOptions.sessionId = serverParams.sessionId;
       }
       
-      // Add OAuth configuration if provided
-      if (serverParams.oauthToken) {
-        // Create a simple auth provider that returns the token
-        transportOptions.authProvider = {
-          tokens: async () => ({ access_token: serverParams.oauthToken }),
-          authorize: async () => { throw new Error("Authorization not implemented"); },
-          refresh: async () => { throw new Error("Refresh not implemented"); }
-        };
-      } else if (serverParams.oauth) {
-        // Create a more comprehensive auth provider for OAuth flows
-        transportOptions.authProvider = {
-          tokens: async () => {
-            // If we have a stored token, return it
-            if (serverParams.oauthToken) {
-              return { access_token: serverParams.oauthToken };
-            }
-            // Otherwise, trigger authorization flow
-            throw new Error("Authorization required");
-          },
-          authorize: async () => {
-            // This would trigger the OAuth authorization flow
-            // The actual implementation depends on the OAuth provider
-            debugError(`OAuth authorization required for ${serverParams.name}`);
-            throw new Error("OAuth authorization required - please authorize through the UI");
-          },
-          refresh: async (refreshToken: string) => {
-            // Implement token refresh if supported by the provider
-            debugError(`OAuth token refresh not implemented for ${serverParams.name}`);
-            throw new Error("Token refresh not implemented");
-          }
-        };
-      }
-      
       transport = new StreamableHTTPClientTransport(url, transportOptions);
     } catch (error) {
       debugError(`Invalid URL for Streamable HTTP server ${serverParams.name}: ${serverParams.url}`);
       return { client: undefined, transport: undefined };
     }
+  } else if (serverParams.type === "WEBSOCKET" && serverParams.url) {
+    if (!validateUrl(serverParams.url, ['ws:', 'wss:'])) {
+      debugError(`Invalid URL for WebSocket server ${serverParams.name}: ${serverParams.url}`);
+      return { client: undefined, transport: undefined };
+    }
+
+    // OAuth flows need HTTP redirects, so WebSocket servers only support a static token
+    const headers: Record<string, string> = { ...serverParams.headers };
+    if (serverParams.oauthToken) {
+      headers.Authorization = `Bearer ${serverParams.oauthToken}`;
+    }
+    transport = new WebSocketClientTransport(new URL(serverParams.url), {
+      headers,
+      subprotocols: serverParams.subprotocols,
+    });
   } else {
     // logger.error(`Unsupported server type: ${serverParams.type} for server ${serverParams.name} (${serverParams.uuid})`); // Removed logging
     return { client: undefined, transport: undefined };
@@ -173,17 +256,33 @@ export const createPluggedinMCPClient = (
 };
 
 export const connectPluggedinMCPClient = async (
-  client: Client,
-  transport: Transport
+  serverParams: ServerParameters,
+  retries: number = 3
 ): Promise<ConnectedClient | undefined> => {
-  const waitFor = 2500;
-  const retries = 3;
-  let count = 0;
-  let retry = true;
+  const baseDelay = 1000;
+  const maxDelay = 10000;
+  const authProvider = serverParams.oauth ? oauthProviders.getProvider(serverParams) : undefined;
+  let authorized = false;
+  // For AUTO servers, the transport being tried
+  let transportType = serverParams.type === "AUTO"
+    ? negotiatedTransports.get(serverParams.uuid) ?? "STREAMABLE_HTTP"
+    : undefined;
+
+  for (let attempt = 0; attempt < retries; attempt++) {
+    // Transports cannot be restarted, so every attempt gets a fresh client and transport
+    const { client, transport } = createPluggedinMCPClient(
+      transportType ? { ...serverParams, type: transportType } : serverParams
+    );
+    if (!client || !transport) {
+      // Invalid configuration - retrying will not help
+      return undefined;
+    }
 
-  while (retry) {
     try {
       await client.connect(transport);
+      if (transportType) {
+        negotiatedTransports.set(serverParams.uuid, transportType);
+      }
 
       return {
         client,
@@ -193,14 +292,39 @@ export const connectPluggedinMCPClient = async (
         },
       };
     } catch (error) {
-      count++;
-      retry = count < retries;
-      if (retry) {
+      debugError(`Failed to connect to server ${serverParams.name} (attempt ${attempt + 1}/${retries}):`, error instanceof Error ? error.message : error);
+      try {
+        await client.close();
+      } catch {}
+
+      if (transportType === "STREAMABLE_HTTP" && isSseOnlyServerError(error)) {
+        debugLog(`Server ${serverParams.name} does not support Streamable HTTP, falling back to SSE`);
+        transportType = "SSE";
+        attempt--;
+        continue;
+      }
+
+      // The server wants the user to authorize: wait for the redirect, exchange the code, then reconnect right away
+      if (error instanceof UnauthorizedError && authProvider?.isAwaitingAuthorization() && !authorized) {
+        authorized = true;
         try {
-          await client.close();
-        } catch {}
-        await sleep(waitFor);
+          const code = await authProvider.waitForAuthorizationCode();
+          await (transport as StreamableHTTPClientTransport | SSEClientTransport).finishAuth(code);
+          attempt--;
+          continue;
+        } catch (authError) {
+          debugError(`OAuth authorization failed for server ${serverParams.name}:`, authError instanceof Error ? authError.message : authError);
+          return undefined;
+        }
+      }
+
+      if (attempt + 1 < retries) {
+        await sleep(getBackoffDelay(attempt, baseDelay, maxDelay));
       }
     }
   }
+
+  // Negotiate again next time, in case the server changed transports
+  negotiatedTransports.delete(serverParams.uuid);
+  return undefined;
 };
@@ -0,0 +1,189 @@
+import { debugLog } from "./debug-log.js";
+
+export interface ConcurrencyLimitOptions {
+  maxConcurrent: number; // Requests sent to the server at the same time
+  maxQueueLength: number; // Requests waiting for a slot; more are rejected straight away
+  queueTimeoutMs: number; // How long a request may wait for a slot before it fails
+}
+
+export interface ConcurrencyMetrics {
+  active: number;
+  queued: number;
+  maxConcurrent: number;
+  totalRequests: number;
+  totalQueued: number; // Requests that had to wait for a slot
+  timedOut: number;
+  rejected: number; // Turned away because the queue was full
+  averageWaitMs: number; // Over the requests that had to wait
+  maxWaitMs: number;
+}
+
+const DEFAULT_OPTIONS: ConcurrencyLimitOptions = {
+  maxConcurrent: 10,
+  maxQueueLength: 100,
+  queueTimeoutMs: 30000,
+};
+
+interface QueuedRequest {
+  enqueuedAt: number;
+  grant: () => void;
+  fail: (error: unknown) => void;
+}
+
+/**
+ * Caps the number of concurrent requests to one downstream server and queues the rest in FIFO order.
+ */
+export class ConcurrencyLimiter {
+  private active = 0;
+  private queue: QueuedRequest[] = [];
+  private stats = { totalRequests: 0, totalQueued: 0, timedOut: 0, rejected: 0, totalWaitMs: 0, maxWaitMs: 0 };
+
+  constructor(
+    private serverName: string,
+    private options: ConcurrencyLimitOptions
+  ) {}
+
+  /**
+   * Waits for a free slot and returns the function that gives it back.
+   * @throws Error if the queue is full, the wait times out or the signal is aborted
+   */
+  async acquire(signal?: AbortSignal): Promise<() => void> {
+    signal?.throwIfAborted();
+    this.stats.totalRequests++;
+
+    if (this.active < this.options.maxConcurrent && this.queue.length === 0) {
+      this.active++;
+      return this.createRelease();
+    }
+
+    if (this.queue.length >= this.options.maxQueueLength) {
+      this.stats.rejected++;
+      throw new Error(`Server ${this.serverName} is busy: ${this.queue.length} requests are already queued`);
+    }
+
+    this.stats.totalQueued++;
+    await new Promise<void>((resolve, reject) => {
+      const entry: QueuedRequest = {
+        enqueuedAt: Date.now(),
+        grant: () => {
+          settle();
+          this.recordWait(entry);
+          resolve();
+        },
+        fail: (error) => {
+          settle();
+          this.queue = this.queue.filter((queued) => queued !== entry);
+          reject(error);
+        },
+      };
+      const timer = setTimeout(() => {
+        this.stats.timedOut++;
+        this.recordWait(entry);
+        debugLog(`[Concurrency] ${this.serverName}: request timed out after ${this.options.queueTimeoutMs}ms in queue`);
+        entry.fail(new Error(
+          `Request to server ${this.serverName} timed out after waiting ${this.options.queueTimeoutMs}ms in its queue ` +
+          `(${this.active} running, ${this.queue.length - 1} others queued)`
+        ));
+      }, this.options.queueTimeoutMs);
+      const onAbort = () => entry.fail(signal?.reason);
+      const settle = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.queue.push(entry);
+    });
+    return this.createRelease();
+  }
+
+  /**
+   * Runs a request once a slot is free, and frees the slot when it settles.
+   */
+  async run<T>(request: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const release = await this.acquire(signal);
+    try {
+      return await request();
+    } finally {
+      release();
+    }
+  }
+
+  getMetrics(): ConcurrencyMetrics {
+    const { totalRequests, totalQueued, timedOut, rejected, totalWaitMs, maxWaitMs } = this.stats;
+    return {
+      active: this.active,
+      queued: this.queue.length,
+      maxConcurrent: this.options.maxConcurrent,
+      totalRequests,
+      totalQueued,
+      timedOut,
+      rejected,
+      averageWaitMs: totalQueued > 0 ? Math.round(totalWaitMs / totalQueued) : 0,
+      maxWaitMs,
+    };
+  }
+
+  private createRelease(): () => void {
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+      // Hand the slot straight to the oldest waiting request
+      const next = this.queue.shift();
+      if (next) {
+        next.grant();
+      } else {
+        this.active--;
+      }
+    };
+  }
+
+  private recordWait(entry: QueuedRequest): void {
+    const waitMs = Date.now() - entry.enqueuedAt;
+    this.stats.totalWaitMs += waitMs;
+    this.stats.maxWaitMs = Math.max(this.stats.maxWaitMs, waitMs);
+  }
+}
+
+/**
+ * Holds one concurrency limiter per downstream server UUID.
+ */
+export class ConcurrencyLimiterRegistry {
+  private limiters = new Map<string, { limiter: ConcurrencyLimiter; optionsKey: string }>();
+  private defaults: ConcurrencyLimitOptions = { ...DEFAULT_OPTIONS };
+
+  configure(options: Partial<ConcurrencyLimitOptions>): void {
+    this.defaults = { ...this.defaults, ...options };
+    this.limiters.clear();
+  }
+
+  /**
+   * Returns the limiter for a server, creating it on first use.
+   * Per-server overrides replace the defaults; changing them starts a new limiter.
+   */
+  get(serverUuid: string, serverName: string, overrides?: Partial<ConcurrencyLimitOptions>): ConcurrencyLimiter {
+    const options = { ...this.defaults, ...(overrides || {}) };
+    const optionsKey = JSON.stringify(options);
+
+    const existing = this.limiters.get(serverUuid);
+    if (existing && existing.optionsKey === optionsKey) {
+      return existing.limiter;
+    }
+
+    const limiter = new ConcurrencyLimiter(serverName, options);
+    this.limiters.set(serverUuid, { limiter, optionsKey });
+    return limiter;
+  }
+
+  getMetrics(serverUuid: string): ConcurrencyMetrics | undefined {
+    return this.limiters.get(serverUuid)?.limiter.getMetrics();
+  }
+
+  reset(): void {
+    this.limiters.clear();
+  }
+}
+
+export const concurrencyLimiters = new ConcurrencyLimiterRegistry();
@@ -0,0 +1,132 @@
+import { watch, FSWatcher } from "fs";
+import path from "path";
+import { getMcpServers, invalidateMcpServersCache } from "./fetch-pluggedinmcp.js";
+import { reconcileSessions } from "./sessions.js";
+import { ServerConfigDiff, ServerParameters } from "./types.js";
+import { getLocalConfigPath, getSessionKey } from "./utils.js";
+import { debugLog, debugError } from "./debug-log.js";
+
+export type ServerConfigChangeListener = (diff: ServerConfigDiff) => void | Promise<void>;
+
+export interface ServerConfigWatcherOptions {
+  pollIntervalMs: number;
+}
+
+// Delay before re-reading the local config after a file event, so one save triggers one reload
+const FILE_CHANGE_DEBOUNCE_MS = 200;
+
+const listeners = new Set<ServerConfigChangeListener>();
+
+/**
+ * Registers a listener that runs after sessions have been reconciled with a new server config.
+ * @returns Function that removes the listener
+ */
+export function onServerConfigChange(listener: ServerConfigChangeListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Computes which servers were added, removed or changed between two config snapshots.
+ */
+export function diffServerConfigs(
+  previous: Record<string, ServerParameters>,
+  next: Record<string, ServerParameters>
+): ServerConfigDiff {
+  const diff: ServerConfigDiff = { added: [], removed: [], changed: [] };
+
+  for (const [uuid, params] of Object.entries(next)) {
+    if (!(uuid in previous)) {
+      diff.added.push(uuid);
+    } else if (getSessionKey(uuid, previous[uuid]) !== getSessionKey(uuid, params)) {
+      diff.changed.push(uuid);
+    }
+  }
+  for (const uuid of Object.keys(previous)) {
+    if (!(uuid in next)) {
+      diff.removed.push(uuid);
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * Watches the server list (API poll, plus file events in local config mode) and
+ * reconciles downstream sessions whenever it changes.
+ * @returns Function that stops the watcher
+ */
+export async function startServerConfigWatcher(
+  options: ServerConfigWatcherOptions
+): Promise<() => void> {
+  let current = await getMcpServers(true);
+  let checking = false;
+  let recheck = false;
+
+  const check = async (): Promise<void> => {
+    // Serialize checks; a change noticed mid-check triggers one more pass afterwards
+    if (checking) {
+      recheck = true;
+      return;
+    }
+    checking = true;
+
+    try {
+      invalidateMcpServersCache();
+      const next = await getMcpServers(true);
+      const diff = diffServerConfigs(current, next);
+      current = next;
+
+      if (diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0) {
+        return;
+      }
+
+      debugLog(`[Config Watcher] Servers changed - added: ${diff.added.length}, removed: ${diff.removed.length}, changed: ${diff.changed.length}`);
+      await reconcileSessions(diff, next);
+
+      for (const listener of listeners) {
+        try {
+          await listener(diff);
+        } catch (error) {
+          debugError("[Config Watcher] Listener failed:", error);
+        }
+      }
+    } catch (error) {
+      debugError("[Config Watcher] Failed to check server config:", error);
+    } finally {
+      checking = false;
+      if (recheck) {
+        recheck = false;
+        void check();
+      }
+    }
+  };
+
+  const pollTimer = setInterval(() => void check(), options.pollIntervalMs);
+  pollTimer.unref();
+
+  let fileWatcher: FSWatcher | undefined;
+  let debounceTimer: NodeJS.Timeout | undefined;
+  const configPath = getLocalConfigPath();
+  if (configPath) {
+    // Watch the directory rather than the file so editors that replace the file on save are still seen
+    fileWatcher = watch(path.dirname(configPath), (_event, fileName) => {
+      if (fileName && fileName.toString() !== path.basename(configPath)) {
+        return;
+      }
+      clearTimeout(debounceTimer);
+      debounceTimer = setTimeout(() => void check(), FILE_CHANGE_DEBOUNCE_MS);
+    });
+    fileWatcher.on("error", (error) => {
+      debugError("[Config Watcher] File watcher error:", error);
+    });
+  }
+
+  return () => {
+    clearInterval(pollTimer);
+    clearTimeout(debounceTimer);
+    fileWatcher?.close();
+  };
+}
@@ -0,0 +1,196 @@
+import {
+  Prompt,
+  Resource,
+  ResourceTemplate,
+  Tool,
+} from "@modelcontextprotocol/sdk/types.js";
+import { mkdirSync, readFileSync, writeFileSync } from "fs";
+import path from "path";
+import { getMcpServers } from "./fetch-pluggedinmcp.js";
+import { getSession, hasSession } from "./sessions.js";
+import { ConnectedClient } from "./client.js";
+import { ServerParameters } from "./types.js";
+import { getManifestDir, getSessionKey, isLazySessionsEnabled } from "./utils.js";
+import { debugError } from "./debug-log.js";
+
+/**
+ * Server attribution added to every discovered item.
+ * Matches the shape returned by the pluggedin-app /api/* endpoints so the
+ * proxy handlers can treat local discovery and API discovery the same way.
+ */
+export interface DownstreamOrigin {
+  _serverUuid: string;
+  _serverName?: string;
+}
+
+export type DownstreamTool = Tool & DownstreamOrigin;
+export type DownstreamPrompt = Prompt & DownstreamOrigin;
+export type DownstreamResource = Resource & DownstreamOrigin;
+export type DownstreamResourceTemplate = ResourceTemplate & DownstreamOrigin;
+
+type ServerCapabilityKey = "tools" | "prompts" | "resources";
+type ListingKind = "tools" | "prompts" | "resources" | "resourceTemplates";
+
+// Last listing of each kind per session key. With --lazy-sessions, servers without a
+// running session are answered from here instead of being started just to be listed.
+const _listings = new Map<string, unknown[]>();
+
+// Listings of one server as kept in the manifest directory, so they survive a restart
+type ListingManifest = Partial<Record<ListingKind, unknown[]>>;
+
+// The session key includes a hash of the server config, so a changed config gets a new manifest
+function getManifestPath(sessionKey: string): string {
+  return path.join(getManifestDir(), `${sessionKey}.json`);
+}
+
+function readManifest(sessionKey: string): ListingManifest | undefined {
+  try {
+    return JSON.parse(readFileSync(getManifestPath(sessionKey), "utf-8")) as ListingManifest;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      debugError(`[Downstream Discovery] Ignoring unreadable manifest for ${sessionKey}:`, error);
+    }
+    return undefined;
+  }
+}
+
+function writeManifest(sessionKey: string, kind: ListingKind, items: unknown[]): void {
+  try {
+    const manifest = { ...readManifest(sessionKey), [kind]: items };
+    mkdirSync(getManifestDir(), { recursive: true, mode: 0o700 });
+    writeFileSync(getManifestPath(sessionKey), JSON.stringify(manifest), { mode: 0o600 });
+  } catch (error) {
+    debugError(`[Downstream Discovery] Failed to save manifest for ${sessionKey}:`, error);
+  }
+}
+
+/**
+ * Returns what to list for a lazy server that is not running: its last listing (from memory or
+ * the manifest directory), else the tools declared in its config. Undefined means it has to be
+ * started to be listed.
+ */
+function getOfflineListing(kind: ListingKind, sessionKey: string, params: ServerParameters): unknown[] | undefined {
+  const listingKey = `${kind}:${sessionKey}`;
+  let listing = _listings.get(listingKey) ?? readManifest(sessionKey)?.[kind];
+  if (listing) {
+    _listings.set(listingKey, listing);
+  } else if (params.tools) {
+    // Prompts and resources of a declared server show up once it has been started
+    listing = kind === "tools" ? params.tools : [];
+  }
+  return listing;
+}
+
+/**
+ * Runs a listing function against every configured downstream server that
+ * advertises the given capability. Servers that fail to connect or list are
+ * skipped so one broken server does not hide the others.
+ */
+async function collectFromSessions<T>(
+  kind: ListingKind,
+  capability: ServerCapabilityKey,
+  list: (session: ConnectedClient, params: ServerParameters) => Promise<T[]>
+): Promise<(T & DownstreamOrigin)[]> {
+  const serverParams = await getMcpServers(true);
+
+  // Drop listings of servers that were removed or reconfigured since
+  const current = new Set(Object.entries(serverParams).map(([uuid, params]) => `${kind}:${getSessionKey(uuid, params)}`));
+  for (const listingKey of _listings.keys()) {
+    if (listingKey.startsWith(`${kind}:`) && !current.has(listingKey)) {
+      _listings.delete(listingKey);
+    }
+  }
+
+  const results = await Promise.allSettled(
+    Object.entries(serverParams).map(async ([uuid, params]) => {
+      const sessionKey = getSessionKey(uuid, params);
+      const listingKey = `${kind}:${sessionKey}`;
+      const withOrigin = (items: T[]) => items.map((item) => ({ ...item, _serverUuid: uuid, _serverName: params.name }));
+      const offline = isLazySessionsEnabled() && !hasSession(sessionKey)
+        ? getOfflineListing(kind, sessionKey, params) as T[] | undefined
+        : undefined;
+      if (offline) {
+        return withOrigin(offline);
+      }
+
+      const session = await getSession(sessionKey, uuid, params);
+      if (!session) {
+        // Reconnecting or stopped: keep listing what it offered before, if anything is known
+        const last = getOfflineListing(kind, sessionKey, params) as T[] | undefined;
+        if (last) {
+          return withOrigin(last);
+        }
+        throw new Error(`Session could not be established for server ${params.name || uuid}`);
+      }
+      const items = session.client.getServerCapabilities()?.[capability] ? await list(session, params) : [];
+      const previous = _listings.get(listingKey);
+      _listings.set(listingKey, items);
+      if (isLazySessionsEnabled() && JSON.stringify(previous) !== JSON.stringify(items)) {
+        writeManifest(sessionKey, kind, items);
+      }
+      return withOrigin(items);
+    })
+  );
+
+  const collected: (T & DownstreamOrigin)[] = [];
+  for (const result of results) {
+    if (result.status === "fulfilled") {
+      collected.push(...result.value);
+    } else {
+      debugError(`[Downstream Discovery] Failed to list ${capability}:`, result.reason);
+    }
+  }
+  return collected;
+}
+
+/**
+ * Follows nextCursor until the downstream server has returned every page.
+ */
+async function listAllPages<T>(
+  fetchPage: (cursor?: string) => Promise<{ items: T[]; nextCursor?: string }>
+): Promise<T[]> {
+  const items: T[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await fetchPage(cursor);
+    items.push(...page.items);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return items;
+}
+
+export function listDownstreamTools(): Promise<DownstreamTool[]> {
+  return collectFromSessions("tools", "tools", ({ client }) =>
+    listAllPages(async (cursor) => {
+      const result = await client.listTools(cursor ? { cursor } : undefined);
+      return { items: result.tools, nextCursor: result.nextCursor };
+    })
+  );
+}
+
+export function listDownstreamPrompts(): Promise<DownstreamPrompt[]> {
+  return collectFromSessions("prompts", "prompts", ({ client }) =>
+    listAllPages(async (cursor) => {
+      const result = await client.listPrompts(cursor ? { cursor } : undefined);
+      return { items: result.prompts, nextCursor: result.nextCursor };
+    })
+  );
+}
+
+export function listDownstreamResources(): Promise<DownstreamResource[]> {
+  return collectFromSessions("resources", "resources", ({ client }) =>
+    listAllPages(async (cursor) => {
+      const result = await client.listResources(cursor ? { cursor } : undefined);
+      return { items: result.resources, nextCursor: result.nextCursor };
+    })
+  );
+}
+
+export function listDownstreamResourceTemplates(): Promise<DownstreamResourceTemplate[]> {
+  return collectFromSessions("resourceTemplates", "resources", ({ client }) =>
+    listAllPages(async (cursor) => {
+      const result = await client.listResourceTemplates(cursor ? { cursor } : undefined);
+      return { items: result.resourceTemplates, nextCursor: result.nextCursor };
+    })
+  );
+}
@@ -0,0 +1,80 @@
+import path from "path";
+import { existsSync, readFileSync } from "fs";
+import { readConfigFile } from "./local-config.js";
+import { getSecretsFilePath, isEnvVarDenied, isTenantSuppliedConfig } from "./utils.js";
+
+// ${secret:NAME}, ${file:/absolute/path} or ${env:NAME}, anywhere inside a value
+const REFERENCE_PATTERN = /\$\{(secret|file|env):([^}]+)\}/g;
+
+/**
+ * Reads the local secrets file, a flat JSON/YAML map of secret names to values.
+ * It is read on every spawn, so rotated secrets are picked up by the next (re)start.
+ */
+function loadSecrets(): Record<string, unknown> {
+  const secretsPath = getSecretsFilePath();
+  if (!existsSync(secretsPath)) {
+    throw new Error(`no secrets file at ${secretsPath}`);
+  }
+  const secrets = readConfigFile(secretsPath);
+  if (!secrets || typeof secrets !== "object" || Array.isArray(secrets)) {
+    throw new Error(`secrets file ${secretsPath} must contain a map of names to values`);
+  }
+  return secrets as Record<string, unknown>;
+}
+
+function resolveReference(kind: string, target: string, getSecrets: () => Record<string, unknown>): string {
+  switch (kind) {
+    case "secret": {
+      const value = getSecrets()[target];
+      if (value === undefined || value === null || typeof value === "object") {
+        throw new Error(`secret ${target} is not defined in ${getSecretsFilePath()}`);
+      }
+      return String(value);
+    }
+    case "file": {
+      if (!path.isAbsolute(target)) {
+        throw new Error(`file reference ${target} must be an absolute path`);
+      }
+      // Secret files usually end with a newline that is not part of the value
+      return readFileSync(target, "utf-8").replace(/\r?\n$/, "");
+    }
+    default: {
+      if (isEnvVarDenied(target)) {
+        throw new Error(`environment variable ${target} is on the env denylist`);
+      }
+      const value = process.env[target];
+      if (value === undefined) {
+        throw new Error(`environment variable ${target} is not set`);
+      }
+      return value;
+    }
+  }
+}
+
+/**
+ * Replaces ${secret:...}, ${file:...} and ${env:...} references in environment values
+ * with their local values. Values without references are returned unchanged.
+ * References are refused in configs supplied by multi-tenant API keys, since the host's
+ * secrets, files and environment belong to the operator, not the tenant.
+ * @throws Error naming the variable if a reference cannot be resolved
+ */
+export function resolveEnvReferences(env: Record<string, string>): Record<string, string> {
+  let secrets: Record<string, unknown> | undefined;
+  const getSecrets = () => (secrets ??= loadSecrets());
+  const tenantSupplied = isTenantSuppliedConfig();
+
+  const resolved: Record<string, string> = {};
+  for (const [key, value] of Object.entries(env)) {
+    try {
+      resolved[key] = String(value).replace(REFERENCE_PATTERN, (_match, kind: string, target: string) => {
+        if (tenantSupplied) {
+          throw new Error("references are not resolved for server configs supplied by multi-tenant API keys");
+        }
+        return resolveReference(kind, target.trim(), getSecrets);
+      });
+    } catch (error) {
+      throw new Error(`Cannot resolve ${key}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  return resolved;
+}
@@ -0,0 +1,149 @@
+import path from "path";
+import { appendFileSync, existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { EventId, EventStore, StreamId } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import { debugError } from "./debug-log.js";
+
+/**
+ * Event store for one Streamable HTTP session. Each session gets its own store,
+ * since the SDK uses the same stream ID for the standalone SSE stream of every session.
+ */
+export interface SessionEventStore extends EventStore {
+  // Drops the session's events once the session is closed
+  dispose(): void;
+}
+
+export type EventStoreFactory = (sessionId: string) => SessionEventStore;
+
+export interface EventStoreOptions {
+  maxEvents: number; // Events kept per session; older ones can no longer be replayed
+  directory?: string; // Keep events in one file per session here instead of in memory
+}
+
+interface StoredEvent {
+  eventId: EventId;
+  streamId: StreamId;
+  message: JSONRPCMessage;
+}
+
+// Event IDs are "<streamId>_<sequence>"; stream IDs may themselves contain underscores
+function createEventId(streamId: StreamId, sequence: number): EventId {
+  return `${streamId}_${sequence}`;
+}
+
+function getStreamId(eventId: EventId): StreamId | undefined {
+  const separator = eventId.lastIndexOf("_");
+  return separator > 0 ? eventId.slice(0, separator) : undefined;
+}
+
+// Sends the events of the last event's stream that came after it, and returns the stream ID
+async function replayAfter(
+  events: StoredEvent[],
+  lastEventId: EventId,
+  send: (eventId: EventId, message: JSONRPCMessage) => Promise<void>
+): Promise<StreamId> {
+  const streamId = getStreamId(lastEventId);
+  const lastIndex = events.findIndex((event) => event.eventId === lastEventId);
+  if (!streamId || lastIndex === -1) {
+    // Unknown or already dropped from the buffer - nothing can be replayed
+    return "";
+  }
+
+  for (const event of events.slice(lastIndex + 1)) {
+    if (event.streamId === streamId) {
+      await send(event.eventId, event.message);
+    }
+  }
+  return streamId;
+}
+
+/**
+ * Keeps the last maxEvents events of a session in memory.
+ */
+export class RingBufferEventStore implements SessionEventStore {
+  private events: StoredEvent[] = [];
+  private sequence = 0;
+
+  constructor(private maxEvents: number) {}
+
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    const eventId = createEventId(streamId, ++this.sequence);
+    this.events.push({ eventId, streamId, message });
+    if (this.events.length > this.maxEvents) {
+      this.events.shift();
+    }
+    return eventId;
+  }
+
+  async replayEventsAfter(
+    lastEventId: EventId,
+    { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<StreamId> {
+    return replayAfter(this.events, lastEventId, send);
+  }
+
+  dispose(): void {
+    this.events = [];
+  }
+}
+
+/**
+ * Appends the events of a session to a JSON lines file, so large buffers stay out of memory.
+ * The file is trimmed back to maxEvents once it holds twice as many.
+ */
+export class FileEventStore implements SessionEventStore {
+  private sequence = 0;
+  private lineCount = 0;
+
+  constructor(private filePath: string, private maxEvents: number) {
+    mkdirSync(path.dirname(filePath), { recursive: true, mode: 0o700 });
+    writeFileSync(filePath, "", { mode: 0o600 });
+  }
+
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    const eventId = createEventId(streamId, ++this.sequence);
+    const event: StoredEvent = { eventId, streamId, message };
+    appendFileSync(this.filePath, JSON.stringify(event) + "\n");
+    if (++this.lineCount >= this.maxEvents * 2) {
+      const kept = this.readEvents().slice(-this.maxEvents);
+      writeFileSync(this.filePath, kept.map((stored) => JSON.stringify(stored) + "\n").join(""));
+      this.lineCount = kept.length;
+    }
+    return eventId;
+  }
+
+  async replayEventsAfter(
+    lastEventId: EventId,
+    { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<StreamId> {
+    return replayAfter(this.readEvents().slice(-this.maxEvents), lastEventId, send);
+  }
+
+  dispose(): void {
+    try {
+      rmSync(this.filePath, { force: true });
+    } catch (error) {
+      debugError(`[EventStore] Failed to remove ${this.filePath}:`, error);
+    }
+  }
+
+  private readEvents(): StoredEvent[] {
+    if (!existsSync(this.filePath)) {
+      return [];
+    }
+    return readFileSync(this.filePath, "utf-8")
+      .split("\n")
+      .filter((line) => line.trim())
+      .map((line) => JSON.parse(line) as StoredEvent);
+  }
+}
+
+/**
+ * Returns a factory for the per-session event stores described by the options.
+ */
+export function createEventStoreFactory(options: EventStoreOptions): EventStoreFactory {
+  const { maxEvents, directory } = options;
+  return (sessionId) => directory
+    ? new FileEventStore(path.join(directory, `${sessionId}.jsonl`), maxEvents)
+    : new RingBufferEventStore(maxEvents);
+}
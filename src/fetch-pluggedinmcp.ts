@@ -1,35 +1,111 @@
 import axios from "axios";
 import {
   getDefaultEnvironment,
+  getLocalConfigPath,
   getPluggedinMCPApiBaseUrl,
   getPluggedinMCPApiKey,
+  isTenantSuppliedConfig,
 } from "./utils.js";
 // import { logger } from "./logging.js"; // No longer needed, get from container
 // import { container } from "./di-container.js"; // Removed DI container
 // import { Logger } from "./logging.js"; // Removed Logger type
 import { ServerParameters } from "./types.js"; // Import ServerParameters type
+import { loadLocalServerConfig } from "./local-config.js";
+import { debugError } from "./debug-log.js";
 
-let _mcpServersCache: Record<string, ServerParameters> | null = null;
-let _mcpServersCacheTimestamp: number = 0;
+interface McpServersCacheEntry {
+  servers: Record<string, ServerParameters>;
+  timestamp: number;
+}
+
+// Server lists by API key, so multi-tenant HTTP sessions never see each other's servers
+const _mcpServersCache = new Map<string, McpServersCacheEntry>();
+const LOCAL_CONFIG_CACHE_KEY = "local-config";
 const CACHE_TTL_MS = 1000; // 1 second cache TTL
 
 // Removed logger
 
+/**
+ * Applies per-type defaults to server parameters coming from the API or a local config file.
+ * Returns null if the server is unusable and should be skipped.
+ */
+function normalizeServerParams(serverParams: any): ServerParameters | null {
+  const params: ServerParameters = {
+    ...serverParams,
+    type: serverParams.type || "STDIO",
+  };
+
+  // Process based on server type
+  if (params.type === "STDIO") {
+    if ("args" in params && !params.args) {
+      params.args = undefined;
+    }
+
+    // A tenant's own passthrough patterns could copy any host variable into its server;
+    // only the operator's patterns apply to tenant-supplied configs
+    params.env = {
+      ...getDefaultEnvironment(isTenantSuppliedConfig() ? [] : params.envPassthrough),
+      ...(params.env || {}),
+    };
+  } else if (params.type === "SSE" || params.type === "AUTO" || params.type === "WEBSOCKET") {
+    // For SSE, AUTO and WebSocket servers, ensure url is present
+    if (!params.url) {
+      // logger.warn( // Removed logging
+      //   `SSE server ${params.uuid} (${params.name}) is missing url field, skipping`
+      // );
+      return null;
+    }
+  }
+
+  return params;
+}
+
+/**
+ * Drops the cached server list so the next getMcpServers call re-reads the source.
+ */
+export function invalidateMcpServersCache(): void {
+  _mcpServersCache.forEach((entry) => {
+    entry.timestamp = 0;
+  });
+}
+
 export async function getMcpServers(
   forceRefresh: boolean = false
 ): Promise<Record<string, ServerParameters>> {
   const currentTime = Date.now();
-  const cacheAge = currentTime - _mcpServersCacheTimestamp;
+  const localConfigPath = getLocalConfigPath();
+  const apiKey = getPluggedinMCPApiKey();
+  const cacheKey = localConfigPath ? LOCAL_CONFIG_CACHE_KEY : apiKey ?? "";
+  const cached = _mcpServersCache.get(cacheKey);
 
-  // Use cache if it exists, is not null, and either:
+  // Use cache if it exists and either:
   // 1. forceRefresh is false, or
   // 2. forceRefresh is true but cache is less than 1 second old
-  if (_mcpServersCache !== null && (!forceRefresh || cacheAge < CACHE_TTL_MS)) {
-    return _mcpServersCache;
+  if (cached && (!forceRefresh || currentTime - cached.timestamp < CACHE_TTL_MS)) {
+    return cached.servers;
+  }
+
+  // Local config mode - read servers from file, no Plugged.in account needed
+  if (localConfigPath) {
+    try {
+      const serverDict: Record<string, ServerParameters> = {};
+      for (const [uuid, serverParams] of Object.entries(loadLocalServerConfig(localConfigPath))) {
+        const params = normalizeServerParams(serverParams);
+        if (params) {
+          serverDict[uuid] = params;
+        }
+      }
+
+      _mcpServersCache.set(cacheKey, { servers: serverDict, timestamp: currentTime });
+      return serverDict;
+    } catch (error) {
+      debugError("[getMcpServers] Failed to load local config:", error instanceof Error ? error.message : error);
+      // Keep serving the last valid config if the file becomes invalid
+      return cached?.servers ?? {};
+    }
   }
 
   try {
-    const apiKey = getPluggedinMCPApiKey();
     const apiBaseUrl = getPluggedinMCPApiBaseUrl();
 
     if (!apiKey || !apiBaseUrl) { // Also check apiBaseUrl
@@ -37,7 +113,7 @@ export async function getMcpServers(
       //   "PLUGGEDIN_API_KEY or PLUGGEDIN_API_BASE_URL is not set. Cannot fetch MCP servers."
       // );
       // Return the last known cache if available, otherwise empty object
-      return _mcpServersCache || {};
+      return cached?.servers ?? {};
     }
 
     const headers = { Authorization: `Bearer ${apiKey}` };
@@ -48,29 +124,9 @@ export async function getMcpServers(
 
     const serverDict: Record<string, ServerParameters> = {};
     for (const serverParams of data) {
-      const params: ServerParameters = {
-        ...serverParams,
-        type: serverParams.type || "STDIO",
-      };
-
-      // Process based on server type
-      if (params.type === "STDIO") {
-        if ("args" in params && !params.args) {
-          params.args = undefined;
-        }
-
-        params.env = {
-          ...getDefaultEnvironment(),
-          ...(params.env || {}),
-        };
-      } else if (params.type === "SSE") {
-        // For SSE servers, ensure url is present
-        if (!params.url) {
-          // logger.warn( // Removed logging
-          //   `SSE server ${params.uuid} (${params.name}) is missing url field, skipping`
-          // );
-          continue;
-        }
+      const params = normalizeServerParams(serverParams);
+      if (!params) {
+        continue;
       }
 
       const uuid = params.uuid;
@@ -79,17 +135,40 @@ export async function getMcpServers(
       }
     }
 
-    _mcpServersCache = serverDict;
-    _mcpServersCacheTimestamp = currentTime;
+    _mcpServersCache.set(cacheKey, { servers: serverDict, timestamp: currentTime });
     // logger.debug(`Fetched and cached ${Object.keys(serverDict).length} MCP server configurations.`); // Removed logging
     return serverDict;
   } catch (error: any) { // Add type to error
     // logger.error("Failed to fetch MCP servers from API:", error.message || error); // Removed logging
     // Return the last known cache if available on error, otherwise empty object
-    if (_mcpServersCache !== null) {
+    if (cached) {
       // logger.warn("Returning stale MCP server cache due to fetch error."); // Removed logging
-      return _mcpServersCache;
+      return cached.servers;
     }
     return {};
   }
 }
+
+/**
+ * Checks an API key against the plugged.in API, so multi-tenant sessions are only opened
+ * for keys that belong to a profile. Fails closed when the API cannot be reached.
+ */
+export async function isKnownApiKey(apiKey: string): Promise<boolean> {
+  const apiBaseUrl = getPluggedinMCPApiBaseUrl();
+  if (!apiBaseUrl) {
+    return false;
+  }
+  try {
+    await axios.get(`${apiBaseUrl}/api/mcp-servers`, {
+      headers: { Authorization: `Bearer ${apiKey}` },
+      timeout: 10000,
+    });
+    return true;
+  } catch (error) {
+    const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+    if (status !== 401 && status !== 403) {
+      debugError("[isKnownApiKey] Could not verify API key:", error instanceof Error ? error.message : error);
+    }
+    return false;
+  }
+}
@@ -25,6 +25,7 @@ import {
 import { getMcpServers } from "../fetch-pluggedinmcp.js";
 import { getSession, initSessions } from "../sessions.js";
 import { getSessionKey } from "../utils.js";
+import { approvalGate } from "../approval-gate.js";
 import {
   setupStaticTool,
   discoverToolsStaticTool,
@@ -571,6 +572,7 @@ Set environment variables in your terminal before launching the editor.
         isError: false
       };
     }
+    await approvalGate.assertNotApprovalNotification(validatedArgs.notificationId);
 
     const notificationApiUrl = `${baseUrl}/api/notifications/${validatedArgs.notificationId}/completed`;
 
@@ -638,6 +640,7 @@ Set environment variables in your terminal before launching the editor.
         isError: false
       };
     }
+    await approvalGate.assertNotApprovalNotification(validatedArgs.notificationId);
 
     const notificationApiUrl = `${baseUrl}/api/notifications/${validatedArgs.notificationId}`;
 
@@ -3,7 +3,20 @@
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { createServer } from "./mcp-proxy.js";
 import { Command } from "commander";
-import { startStreamableHTTPServer } from "./streamable-http.js";
+import { startStreamableHTTPServer, StreamableHTTPTLSOptions } from "./streamable-http.js";
+import { createEventStoreFactory } from "./event-store.js";
+import { loadLocalServerConfig } from "./local-config.js";
+import { startServerConfigWatcher } from "./config-watcher.js";
+import { sessionSupervisor } from "./session-supervisor.js";
+import { circuitBreakers } from "./circuit-breaker.js";
+import { concurrencyLimiters } from "./concurrency-limiter.js";
+import { toolPolicies } from "./tool-policy.js";
+import { approvalGate } from "./approval-gate.js";
+import { toolResultCache } from "./result-cache.js";
+import { oauthProviders } from "./oauth-provider.js";
+import { warmUpSessions } from "./sessions.js";
+import path from "path";
+import { readFileSync } from "fs";
 // import { reportAllCapabilities } from "./report-tools.js"; // Removed reporting
 // import { cleanupAllSessions } from "./sessions.js"; // Cleanup handled by createServer return
 
@@ -20,6 +33,124 @@ program
     "--pluggedin-api-base-url <url>",
     "Base URL for PluggedinMCP API (can also be set via PLUGGEDIN_API_BASE_URL env var)"
   )
+  .option(
+    "--config <file>",
+    "Load downstream MCP servers from a local JSON/YAML file instead of the PluggedinMCP API (can also be set via PLUGGEDIN_CONFIG_FILE env var)"
+  )
+  .option(
+    "--watch-servers",
+    "Watch the server list (API or --config file) and reload changed servers without a restart"
+  )
+  .option(
+    "--watch-interval <ms>",
+    "Polling interval in milliseconds for --watch-servers (default: 30000)",
+    "30000"
+  )
+  .option(
+    "--health-check-interval <ms>",
+    "Interval in milliseconds for pinging downstream servers, 0 to disable (default: 30000)",
+    "30000"
+  )
+  .option(
+    "--tool-timeout <ms>",
+    "Default timeout in milliseconds for proxied tool calls (can also be set via PLUGGEDIN_TOOL_TIMEOUT_MS env var, default: 60000)"
+  )
+  .option(
+    "--tool-cache",
+    "Cache results of tools annotated readOnlyHint or idempotentHint"
+  )
+  .option(
+    "--tool-cache-ttl <ms>",
+    "How long cached tool results stay fresh (default: 60000)"
+  )
+  .option(
+    "--tool-cache-max-entries <count>",
+    "Maximum number of cached tool results across all tools (default: 1000)"
+  )
+  .option(
+    "--approve-destructive-tools",
+    "Ask the user to approve calls to tools annotated with destructiveHint (can also be set via PLUGGEDIN_APPROVE_DESTRUCTIVE_TOOLS=true)"
+  )
+  .option(
+    "--approval-timeout <ms>",
+    "How long to wait for the user to answer an approval request (default: 300000)"
+  )
+  .option(
+    "--tool-namespace <mode>",
+    "Prefix downstream tool names with their server: off (default), always, or on-collision (can also be set via PLUGGEDIN_TOOL_NAMESPACE env var)"
+  )
+  .option(
+    "--tool-namespace-separator <separator>",
+    "Separator between the server prefix and the tool name (can also be set via PLUGGEDIN_TOOL_NAMESPACE_SEPARATOR env var, default: __)"
+  )
+  .option(
+    "--tool-policy <file>",
+    "JSON/YAML file with per-connection tool allow/deny policies (can also be set via PLUGGEDIN_TOOL_POLICY_FILE env var)"
+  )
+  .option(
+    "--sandbox-stdio",
+    "Run STDIO servers in a Linux sandbox (bubblewrap) unless their config sets sandbox: false (can also be set via PLUGGEDIN_SANDBOX_STDIO=true)"
+  )
+  .option(
+    "--lazy-sessions",
+    "Only start downstream servers when a request needs them, except servers marked eager (can also be set via PLUGGEDIN_LAZY_SESSIONS=true)"
+  )
+  .option(
+    "--manifest-dir <dir>",
+    "Directory where --lazy-sessions keeps the last listing of each server, so it is not started just to be listed (default: ~/.pluggedin-mcp/manifests, can also be set via PLUGGEDIN_MANIFEST_DIR env var)"
+  )
+  .option(
+    "--session-idle-timeout <ms>",
+    "Close downstream sessions unused for this long; they restart on the next request (0 = never, can also be set via PLUGGEDIN_SESSION_IDLE_TIMEOUT_MS env var)"
+  )
+  .option(
+    "--env-passthrough <patterns>",
+    "Comma-separated host variables (glob patterns, e.g. XDG_*) passed to STDIO servers in addition to PATH, HOME, USER, LANG and LC_ALL (can also be set via PLUGGEDIN_ENV_PASSTHROUGH env var)"
+  )
+  .option(
+    "--env-deny <patterns>",
+    "Comma-separated host variables (glob patterns) never passed to STDIO servers; PLUGGEDIN_API_KEY is always denied (can also be set via PLUGGEDIN_ENV_DENY env var)"
+  )
+  .option(
+    "--secrets-file <file>",
+    "JSON/YAML file with local values for ${secret:NAME} references in server env (can also be set via PLUGGEDIN_SECRETS_FILE env var)"
+  )
+  .option(
+    "--oauth-callback-port <port>",
+    "Loopback port for OAuth authorization redirects from downstream servers (default: 33418)"
+  )
+  .option(
+    "--oauth-storage-dir <dir>",
+    "Directory for encrypted downstream OAuth credentials (default: ~/.pluggedin-mcp/oauth)"
+  )
+  .option(
+    "--no-oauth-browser",
+    "Only print OAuth authorization URLs instead of opening them in the browser"
+  )
+  .option(
+    "--circuit-breaker-error-rate <ratio>",
+    "Failure ratio (0-1) of recent tool calls that opens a server's circuit breaker (default: 0.5)"
+  )
+  .option(
+    "--circuit-breaker-slow-call <ms>",
+    "Tool calls slower than this count as failures for the circuit breaker (default: off, only errors and timeouts count)"
+  )
+  .option(
+    "--circuit-breaker-open-duration <ms>",
+    "How long an open circuit breaker rejects calls before a trial call (default: 30000)"
+  )
+  .option(
+    "--max-concurrent-calls <count>",
+    "Requests sent to one downstream server at the same time; more wait in a FIFO queue (default: 10)"
+  )
+  .option(
+    "--max-queue-length <count>",
+    "Requests that may wait for one downstream server before new ones are rejected (default: 100)"
+  )
+  .option(
+    "--queue-timeout <ms>",
+    "How long a request may wait in a downstream server's queue before it fails (default: 30000)"
+  )
   .option(
     "--transport <type>",
     "Transport type: stdio (default) or streamable-http",
@@ -30,6 +161,19 @@ program
     "Port for Streamable HTTP server (default: 12006)",
     "12006"
   )
+  .option(
+    "--host <address>",
+    "Address the Streamable HTTP server binds to (default: 127.0.0.1, use 0.0.0.0 for all interfaces)",
+    "127.0.0.1"
+  )
+  .option(
+    "--allowed-origins <origins>",
+    "Comma-separated origins browsers may call the Streamable HTTP server from, or * for any (default: localhost pages)"
+  )
+  .option(
+    "--allowed-hosts <hosts>",
+    "Comma-separated Host header values the Streamable HTTP server accepts (default: localhost names when bound to loopback)"
+  )
   .option(
     "--stateless",
     "Enable stateless mode for Streamable HTTP (new transport per request)"
@@ -38,6 +182,49 @@ program
     "--require-api-auth",
     "Require API key authentication for Streamable HTTP requests"
   )
+  .option(
+    "--multi-tenant",
+    "Give each Streamable HTTP session its own server, using the plugged.in API key from its Authorization header"
+  )
+  .option(
+    "--tls-cert <path>",
+    "PEM certificate for serving Streamable HTTP over HTTPS (requires --tls-key)"
+  )
+  .option(
+    "--tls-key <path>",
+    "PEM private key for --tls-cert"
+  )
+  .option(
+    "--tls-ca <path>",
+    "PEM CA certificate to verify client certificates against (mTLS)"
+  )
+  .option(
+    "--tls-require-client-cert",
+    "Refuse HTTPS connections without a client certificate signed by --tls-ca"
+  )
+  .option(
+    "--tls-client-cert-auth",
+    "Accept a verified client certificate instead of the API key for --require-api-auth"
+  )
+  .option(
+    "--http-session-timeout <ms>",
+    "Close Streamable HTTP sessions idle for longer than this, 0 to keep them until DELETE (default: 1800000)",
+    "1800000"
+  )
+  .option(
+    "--max-http-sessions <count>",
+    "Maximum number of Streamable HTTP sessions; the least recently used idle one is evicted (default: 1000)",
+    "1000"
+  )
+  .option(
+    "--event-store-size <count>",
+    "Messages kept per Streamable HTTP session for Last-Event-ID resumption, 0 to disable (default: 100)",
+    "100"
+  )
+  .option(
+    "--event-store-dir <path>",
+    "Keep the resumption events of each Streamable HTTP session in a file in this directory instead of in memory"
+  )
   // Allow unknown options and excess arguments to prevent errors when called by MCP inspector
   .allowUnknownOption()
   .allowExcessArguments()
@@ -67,12 +254,175 @@ if (options.pluggedinApiBaseUrl) {
   }
 }
 
+if (options.toolTimeout) {
+  const toolTimeoutMs = parseInt(options.toolTimeout, 10);
+  if (toolTimeoutMs > 0) {
+    process.env.PLUGGEDIN_TOOL_TIMEOUT_MS = String(toolTimeoutMs);
+  }
+}
+if (options.toolNamespace) {
+  const toolNamespace = String(options.toolNamespace).toLowerCase();
+  if (!['off', 'always', 'on-collision'].includes(toolNamespace)) {
+    console.error("Invalid --tool-namespace value (expected off, always or on-collision)");
+    process.exit(1);
+  }
+  process.env.PLUGGEDIN_TOOL_NAMESPACE = toolNamespace;
+}
+if (options.toolNamespaceSeparator) {
+  // Tool names are limited to letters, digits, _ and - by most clients
+  const separator = String(options.toolNamespaceSeparator);
+  if (!/^[a-zA-Z0-9_-]+$/.test(separator)) {
+    console.error("Invalid --tool-namespace-separator value (allowed characters: letters, digits, _ and -)");
+    process.exit(1);
+  }
+  process.env.PLUGGEDIN_TOOL_NAMESPACE_SEPARATOR = separator;
+}
+if (options.config) {
+  process.env.PLUGGEDIN_CONFIG_FILE = path.resolve(String(options.config));
+}
+if (process.env.PLUGGEDIN_CONFIG_FILE) {
+  // Fail fast on a broken config file rather than starting with no servers
+  try {
+    loadLocalServerConfig(process.env.PLUGGEDIN_CONFIG_FILE);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : "Invalid config file provided");
+    process.exit(1);
+  }
+}
+
+if (options.multiTenant && options.transport !== 'streamable-http') {
+  console.error("--multi-tenant requires --transport streamable-http");
+  process.exit(1);
+}
+// Tenants are only told apart by their plugged.in API key, so each must get that key's own servers
+if (options.multiTenant && process.env.PLUGGEDIN_CONFIG_FILE) {
+  console.error("--multi-tenant cannot be combined with --config: every tenant would get the servers of the config file");
+  process.exit(1);
+}
+if (options.multiTenant) {
+  process.env.PLUGGEDIN_MULTI_TENANT = 'true';
+}
+
+// Read the TLS certificates up front, so a wrong path fails before anything starts
+let tls: StreamableHTTPTLSOptions | undefined;
+if (options.tlsCert || options.tlsKey || options.tlsCa || options.tlsRequireClientCert || options.tlsClientCertAuth) {
+  if (options.transport !== 'streamable-http') {
+    console.error("TLS options require --transport streamable-http");
+    process.exit(1);
+  }
+  if (!options.tlsCert || !options.tlsKey) {
+    console.error("--tls-cert and --tls-key must be given together");
+    process.exit(1);
+  }
+  if ((options.tlsRequireClientCert || options.tlsClientCertAuth) && !options.tlsCa) {
+    console.error("--tls-require-client-cert and --tls-client-cert-auth require --tls-ca");
+    process.exit(1);
+  }
+  try {
+    tls = {
+      cert: readFileSync(path.resolve(String(options.tlsCert))),
+      key: readFileSync(path.resolve(String(options.tlsKey))),
+      ...(options.tlsCa && { ca: readFileSync(path.resolve(String(options.tlsCa))) }),
+      requireClientCert: !!options.tlsRequireClientCert,
+      clientCertAuth: !!options.tlsClientCertAuth,
+    };
+  } catch (error) {
+    console.error(`Cannot read TLS certificate: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+}
+if (options.lazySessions) {
+  process.env.PLUGGEDIN_LAZY_SESSIONS = 'true';
+}
+if (options.manifestDir) {
+  process.env.PLUGGEDIN_MANIFEST_DIR = path.resolve(String(options.manifestDir));
+}
+if (options.sessionIdleTimeout !== undefined) {
+  const idleTimeoutMs = parseInt(options.sessionIdleTimeout, 10);
+  if (isNaN(idleTimeoutMs) || idleTimeoutMs < 0) {
+    console.error("Invalid --session-idle-timeout value (expected milliseconds, 0 to disable)");
+    process.exit(1);
+  }
+  process.env.PLUGGEDIN_SESSION_IDLE_TIMEOUT_MS = String(idleTimeoutMs);
+}
+if (options.envPassthrough) {
+  process.env.PLUGGEDIN_ENV_PASSTHROUGH = String(options.envPassthrough);
+}
+if (options.envDeny) {
+  process.env.PLUGGEDIN_ENV_DENY = String(options.envDeny);
+}
+if (options.secretsFile) {
+  process.env.PLUGGEDIN_SECRETS_FILE = path.resolve(String(options.secretsFile));
+}
+if (options.sandboxStdio) {
+  process.env.PLUGGEDIN_SANDBOX_STDIO = 'true';
+}
+if (options.approveDestructiveTools) {
+  process.env.PLUGGEDIN_APPROVE_DESTRUCTIVE_TOOLS = 'true';
+}
+if (options.toolPolicy) {
+  process.env.PLUGGEDIN_TOOL_POLICY_FILE = path.resolve(String(options.toolPolicy));
+}
+if (process.env.PLUGGEDIN_TOOL_POLICY_FILE) {
+  // Fail closed: refuse to start without the policies the operator asked for
+  try {
+    toolPolicies.loadFromFile(process.env.PLUGGEDIN_TOOL_POLICY_FILE);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : "Invalid tool policy file provided");
+    process.exit(1);
+  }
+}
+
 async function main() {
   // Removed --report flag handling
 
   try {
+    // Configure downstream health checks before any sessions are created
+    const pingIntervalMs = parseInt(options.healthCheckInterval, 10);
+    sessionSupervisor.configure({ pingIntervalMs: isNaN(pingIntervalMs) ? 30000 : pingIntervalMs });
+
+    // Apply global circuit breaker thresholds; servers can still override them individually
+    const breakerErrorRate = parseFloat(options.circuitBreakerErrorRate);
+    const breakerSlowCallMs = parseInt(options.circuitBreakerSlowCall, 10);
+    const breakerOpenDurationMs = parseInt(options.circuitBreakerOpenDuration, 10);
+    circuitBreakers.configure({
+      ...(breakerErrorRate >= 0 && breakerErrorRate <= 1 && { errorRateThreshold: breakerErrorRate }),
+      ...(breakerSlowCallMs > 0 && { slowCallThresholdMs: breakerSlowCallMs }),
+      ...(breakerOpenDurationMs > 0 && { openDurationMs: breakerOpenDurationMs }),
+    });
+
+    // Apply global concurrency limits; servers can still override them individually
+    const maxConcurrentCalls = parseInt(options.maxConcurrentCalls, 10);
+    const maxQueueLength = parseInt(options.maxQueueLength, 10);
+    const queueTimeoutMs = parseInt(options.queueTimeout, 10);
+    concurrencyLimiters.configure({
+      ...(maxConcurrentCalls > 0 && { maxConcurrent: maxConcurrentCalls }),
+      ...(maxQueueLength >= 0 && { maxQueueLength }),
+      ...(queueTimeoutMs > 0 && { queueTimeoutMs }),
+    });
+
+    const toolCacheTtlMs = parseInt(options.toolCacheTtl, 10);
+    const toolCacheMaxEntries = parseInt(options.toolCacheMaxEntries, 10);
+    toolResultCache.configure({
+      enabled: !!options.toolCache,
+      ...(toolCacheTtlMs > 0 && { ttlMs: toolCacheTtlMs }),
+      ...(toolCacheMaxEntries > 0 && { maxTotalEntries: toolCacheMaxEntries }),
+    });
+
+    const approvalTimeoutMs = parseInt(options.approvalTimeout, 10);
+    if (approvalTimeoutMs > 0) {
+      approvalGate.configure({ elicitationTimeoutMs: approvalTimeoutMs });
+    }
+
+    const oauthCallbackPort = parseInt(options.oauthCallbackPort, 10);
+    oauthProviders.configure({
+      ...(oauthCallbackPort > 0 && oauthCallbackPort < 65536 && { callbackPort: oauthCallbackPort }),
+      ...(options.oauthStorageDir && { storageDir: path.resolve(String(options.oauthStorageDir)) }),
+      openBrowser: options.oauthBrowser !== false,
+    });
+
     // Create the MCP server
-    const { server, cleanup: serverCleanup } = await createServer();
+    const { server, cleanup: serverCleanup, forgetSession } = await createServer();
     
     // Initialize transport based on the selected type
     let transportCleanup: (() => Promise<void>) | null = null;
@@ -80,13 +430,34 @@ async function main() {
     if (options.transport === 'streamable-http') {
       // Streamable HTTP transport
       const port = parseInt(options.port, 10) || 12006;
+      const sessionTimeoutMs = parseInt(options.httpSessionTimeout, 10);
+      const maxSessions = parseInt(options.maxHttpSessions, 10);
+      const eventStoreSize = parseInt(options.eventStoreSize, 10);
+      const host = String(options.host || "127.0.0.1");
+      const parseList = (value: unknown) => value
+        ? String(value).split(",").map((item) => item.trim()).filter(Boolean)
+        : undefined;
       // Only log to console for HTTP transport, not STDIO
-      console.log(`Starting Streamable HTTP server on port ${port}...`);
+      console.log(`Starting Streamable HTTP server on ${tls ? "https" : "http"}://${host}:${port}...`);
       
       transportCleanup = await startStreamableHTTPServer(server, {
         port,
+        host,
+        allowedOrigins: parseList(options.allowedOrigins),
+        allowedHosts: parseList(options.allowedHosts),
         requireApiAuth: options.requireApiAuth,
-        stateless: options.stateless
+        stateless: options.stateless,
+        ...(!isNaN(sessionTimeoutMs) && sessionTimeoutMs >= 0 && { sessionTimeoutMs }),
+        ...(!isNaN(maxSessions) && maxSessions > 0 && { maxSessions }),
+        ...(!isNaN(eventStoreSize) && eventStoreSize >= 0 && {
+          eventStoreFactory: eventStoreSize > 0 && createEventStoreFactory({
+            maxEvents: eventStoreSize,
+            ...(options.eventStoreDir && { directory: path.resolve(String(options.eventStoreDir)) }),
+          }),
+        }),
+        ...(options.multiTenant && { serverFactory: () => createServer({ perSession: true }) }),
+        ...(tls && { tls }),
+        onSessionClosed: forgetSession,
       });
       
       // For HTTP server, we don't need to handle stdin
@@ -106,8 +477,21 @@ async function main() {
       process.stdin.on("close", () => process.exit(0));
     }
 
+    // Start eager servers in the background so their first request does not wait for them
+    warmUpSessions().catch(() => {});
+
+    // Reload downstream servers when their configuration changes
+    let stopConfigWatcher: (() => void) | null = null;
+    if (options.watchServers) {
+      const pollIntervalMs = parseInt(options.watchInterval, 10) || 30000;
+      stopConfigWatcher = await startServerConfigWatcher({ pollIntervalMs });
+    }
+
     // Combined cleanup handler
     const handleExit = async () => {
+      if (stopConfigWatcher) {
+        stopConfigWatcher();
+      }
       await serverCleanup();
       if (transportCleanup) {
         await transportCleanup();
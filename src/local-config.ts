@@ -0,0 +1,151 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { z } from "zod";
+import { parse as parseYaml } from "yaml";
+import { v5 as uuidv5 } from "uuid";
+import { ServerParameters } from "./types.js";
+
+// Fixed namespace so a server declared by name always gets the same UUID across restarts
+const LOCAL_SERVER_NAMESPACE = "6f1c3a52-8d4e-4b7a-9c2f-5e8d1a0b3c7d";
+
+// Schema for a single server entry in the local config file
+const LocalServerSchema = z.object({
+  uuid: z.string().uuid().optional(),
+  name: z.string().min(1).optional(),
+  description: z.string().optional(),
+  type: z.enum(["STDIO", "SSE", "STREAMABLE_HTTP", "AUTO", "WEBSOCKET"]).default("STDIO"),
+  command: z.string().min(1).optional(),
+  args: z.array(z.string()).optional(),
+  env: z.record(z.string()).optional(),
+  envPassthrough: z.array(z.string().min(1)).optional(),
+  cwd: z.string().min(1).optional(),
+  resourceLimits: z.object({
+    memoryMb: z.number().int().positive().optional(),
+    cpuSeconds: z.number().int().positive().optional(),
+  }).optional(),
+  eager: z.boolean().optional(),
+  tools: z.array(z.object({
+    name: z.string().min(1),
+    description: z.string().optional(),
+    inputSchema: z.object({ type: z.literal("object") }).passthrough().default({ type: "object" }),
+  })).optional(),
+  maxRestarts: z.number().int().min(0).optional(),
+  sandbox: z.union([
+    z.boolean(),
+    z.object({
+      network: z.boolean().optional(),
+      filesystem: z.enum(["restricted", "host"]).optional(),
+      readOnlyPaths: z.array(z.string().min(1)).optional(),
+      writablePaths: z.array(z.string().min(1)).optional(),
+    }),
+  ]).optional(),
+  url: z.string().url().optional(),
+  headers: z.record(z.string()).optional(),
+  oauthToken: z.string().optional(),
+  oauth: z.object({
+    clientId: z.string().min(1).optional(),
+    clientSecret: z.string().min(1).optional(),
+    scopes: z.array(z.string().min(1)).optional(),
+  }).optional(),
+  sessionId: z.string().optional(),
+  subprotocols: z.array(z.string().min(1)).optional(),
+  toolPrefix: z.string().regex(/^[a-zA-Z0-9_-]+$/, "toolPrefix may only contain letters, digits, _ and -").optional(),
+  toolTimeoutMs: z.number().int().positive().optional(),
+  toolTimeouts: z.record(z.number().int().positive()).optional(),
+  toolCache: z.object({
+    enabled: z.boolean().optional(),
+    ttlMs: z.number().int().positive().optional(),
+    maxEntries: z.number().int().positive().optional(),
+    maxEntryBytes: z.number().int().positive().optional(),
+    tools: z.record(z.object({
+      enabled: z.boolean().optional(),
+      ttlMs: z.number().int().positive().optional(),
+      maxEntries: z.number().int().positive().optional(),
+      maxEntryBytes: z.number().int().positive().optional(),
+    })).optional(),
+  }).optional(),
+  concurrency: z.object({
+    maxConcurrent: z.number().int().positive().optional(),
+    maxQueueLength: z.number().int().min(0).optional(),
+    queueTimeoutMs: z.number().int().positive().optional(),
+  }).optional(),
+  circuitBreaker: z.object({
+    windowSize: z.number().int().positive().optional(),
+    minimumCalls: z.number().int().positive().optional(),
+    errorRateThreshold: z.number().min(0).max(1).optional(),
+    slowCallThresholdMs: z.number().int().positive().optional(),
+    openDurationMs: z.number().int().positive().optional(),
+    halfOpenMaxCalls: z.number().int().positive().optional(),
+  }).optional(),
+}).superRefine((server, ctx) => {
+  if (server.type === "STDIO" && !server.command) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "STDIO servers require a command", path: ["command"] });
+  }
+  if (server.type !== "STDIO" && !server.url) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${server.type} servers require a url`, path: ["url"] });
+  }
+});
+
+// Schema for the whole local config file, keyed by server name like Claude Desktop configs
+export const LocalConfigSchema = z.object({
+  mcpServers: z.record(LocalServerSchema),
+});
+
+export type LocalConfig = z.infer<typeof LocalConfigSchema>;
+
+/**
+ * Reads and parses a local JSON/YAML file.
+ * Files ending in .yaml/.yml are parsed as YAML, everything else as JSON.
+ * @throws Error if the file cannot be read or parsed
+ */
+export function readConfigFile(filePath: string): unknown {
+  try {
+    const contents = readFileSync(filePath, "utf-8");
+    const extension = path.extname(filePath).toLowerCase();
+    if (extension === ".yaml" || extension === ".yml") {
+      return parseYaml(contents);
+    }
+    return JSON.parse(contents);
+  } catch (error) {
+    throw new Error(`Failed to read config file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Loads downstream server definitions from a local JSON/YAML file.
+ * Used instead of the /api/mcp-servers endpoint when running with --config.
+ * @param filePath - Path to the config file
+ * @returns Server parameters keyed by server UUID
+ * @throws Error if the file cannot be read, parsed, or fails validation
+ */
+export function loadLocalServerConfig(filePath: string): Record<string, ServerParameters> {
+  const result = LocalConfigSchema.safeParse(readConfigFile(filePath));
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+      .join("; ");
+    throw new Error(`Invalid config file ${filePath}: ${issues}`);
+  }
+
+  const serverDict: Record<string, ServerParameters> = {};
+  for (const [key, server] of Object.entries(result.data.mcpServers)) {
+    const name = server.name ?? key;
+    const uuid = server.uuid ?? uuidv5(name, LOCAL_SERVER_NAMESPACE);
+    if (serverDict[uuid]) {
+      throw new Error(`Invalid config file ${filePath}: duplicate server "${name}"`);
+    }
+    // Relative working directories and sandbox paths are resolved against the config file's directory
+    const resolvePath = (relativePath: string) => path.resolve(path.dirname(filePath), relativePath);
+    const cwd = server.cwd && resolvePath(server.cwd);
+    const sandbox = typeof server.sandbox === "object"
+      ? {
+          ...server.sandbox,
+          readOnlyPaths: server.sandbox.readOnlyPaths?.map(resolvePath),
+          writablePaths: server.sandbox.writablePaths?.map(resolvePath),
+        }
+      : server.sandbox;
+    serverDict[uuid] = { ...server, uuid, name, ...(cwd && { cwd }), ...(sandbox !== undefined && { sandbox }) };
+  }
+
+  return serverDict;
+}
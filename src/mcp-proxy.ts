@@ -18,11 +18,13 @@ import {
   GetPromptResultSchema,
   PromptMessage,
   PingRequestSchema,
+  SetLevelRequestSchema,
+  LoggingLevel,
 } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
 import { getMcpServers } from "./fetch-pluggedinmcp.js";
-import { getSessionKey, sanitizeName, isDebugEnabled, getPluggedinMCPApiKey, getPluggedinMCPApiBaseUrl } from "./utils.js";
-import { cleanupAllSessions, getSession, initSessions } from "./sessions.js";
+import { getSessionKey, sanitizeName, isDebugEnabled, getPluggedinMCPApiKey, getPluggedinMCPApiBaseUrl, isLocalConfigMode, getToolTimeoutMs, getToolNamespaceMode, getToolNamespaceSeparator, isDestructiveApprovalEnabled } from "./utils.js";
+import { cleanupAllSessions, getSession, getServerHealth, getServerUnavailableReason, initSessions, trackSessionRequest } from "./sessions.js";
 import { ConnectedClient } from "./client.js";
 import axios from "axios";
 import { zodToJsonSchema } from 'zod-to-json-schema';
@@ -46,12 +48,32 @@ import {
   updateDocumentStaticTool
 } from "./tools/static-tools.js";
 import { StaticToolHandlers } from "./handlers/static-handlers.js";
+import {
+  listDownstreamTools,
+  listDownstreamPrompts,
+  listDownstreamResources,
+  listDownstreamResourceTemplates
+} from "./downstream-discovery.js";
+import { onServerConfigChange } from "./config-watcher.js";
+import { circuitBreakers } from "./circuit-breaker.js";
+import { concurrencyLimiters } from "./concurrency-limiter.js";
+import { UpstreamRequestRelay } from "./notification-relay.js";
+import { namespaceTools, describeToolCollisions, ToolCollision, ToolRoute } from "./tool-namespace.js";
+import { toolPolicies, getConnectionIdentity, isToolPermitted, isApprovalRequired, ToolIdentity, STATIC_TOOLS_SERVER_NAME } from "./tool-policy.js";
+import { approvalGate } from "./approval-gate.js";
+import { toolResultCache, CACHE_META_KEY, CacheStatus } from "./result-cache.js";
+import { oauthProviders } from "./oauth-provider.js";
+import { serverStderrLogs } from "./stderr-log.js";
 
 const require = createRequire(import.meta.url);
 const packageJson = require('../package.json');
 
-// Map to store prefixed tool name -> { originalName, serverUuid }
-const toolToServerMap: Record<string, { originalName: string; serverUuid: string; }> = {};
+// Identifies a tool for policy checks; tools without a downstream route are the proxy's static tools
+function getToolIdentity(toolName: string, route?: ToolRoute): ToolIdentity {
+  return route
+    ? { serverName: route.serverName ?? route.serverUuid, toolName, originalName: route.originalName }
+    : { serverName: STATIC_TOOLS_SERVER_NAME, toolName };
+}
 
 // Interface for instruction data from API
 interface InstructionData {
@@ -61,9 +83,6 @@ interface InstructionData {
   _serverUuid?: string;
 }
 
-// Map to store custom instruction name -> instruction content
-const instructionToServerMap: Record<string, InstructionData> = {};
-
 // Define the static discovery tool schema using Zod
 const DiscoverToolsInputSchema = z.object({
   server_uuid: z.string().uuid().optional().describe("Optional UUID of a specific server to discover. If omitted, attempts to discover all."),
@@ -201,6 +220,19 @@ const DeleteNotificationInputSchema = z.object({
   notificationId: z.string().min(1, "Notification ID cannot be empty"),
 });
 
+// Input schema for reading a STDIO server's captured stderr
+const ServerLogsInputSchema = z.object({
+  server: z.string().min(1).describe("Name or UUID of the downstream server."),
+  lines: z.number().int().min(1).max(500).optional().default(50).describe("Number of most recent lines to return (1-500). Defaults to 50."),
+}).describe("Returns the recent stderr output and restart status of a downstream STDIO server.");
+
+// Define the static tool for reading server logs
+const serverLogsStaticTool: Tool = {
+    name: "pluggedin_get_server_logs",
+    description: "Returns the recent stderr output and restart status of a downstream STDIO server, useful when it fails to start or crashes.",
+    inputSchema: zodToJsonSchema(ServerLogsInputSchema) as any,
+};
+
 
 // Define the static prompt for proxy capabilities
 const proxyCapabilitiesStaticPrompt = {
@@ -209,9 +241,48 @@ const proxyCapabilitiesStaticPrompt = {
   arguments: []
 } as const;
 
-export const createServer = async () => {
-  // Create rate limiters for different operations
-  const toolCallRateLimiter = new RateLimiter(60000, 60); // 60 calls per minute
+/**
+ * Creates the proxy's MCP server. Routing maps live in this closure, so every server
+ * (one per HTTP session in multi-tenant mode) only routes to the tools it listed itself.
+ * @param options.perSession - Cleanup only releases this server's own state; the shared
+ *   downstream sessions, breakers and caches stay up for the other servers
+ */
+export const createServer = async (options: { perSession?: boolean } = {}) => {
+  // Map to store exposed (possibly namespaced) tool name -> { originalName, serverUuid }
+  const toolToServerMap: Record<string, ToolRoute> = {};
+  // Tool names claimed by more than one server in the last listing
+  let toolCollisions: ToolCollision[] = [];
+
+  // Map to store custom instruction name -> instruction content
+  const instructionToServerMap: Record<string, InstructionData> = {};
+
+  // Maps used in local config mode, where there is no resolve API:
+  // prompt name -> server UUID, and resource URI -> server UUID
+  const promptToServerMap: Record<string, string> = {};
+  const resourceToServerMap: Record<string, string> = {};
+
+  // Repopulates promptToServerMap from the live downstream sessions
+  const refreshLocalPromptMap = async () => {
+    const prompts = await listDownstreamPrompts();
+    Object.keys(promptToServerMap).forEach(key => delete promptToServerMap[key]);
+    prompts.forEach(prompt => {
+      promptToServerMap[prompt.name] = prompt._serverUuid;
+    });
+    return prompts;
+  };
+
+  // Repopulates resourceToServerMap from the live downstream sessions
+  const refreshLocalResourceMap = async () => {
+    const resources = await listDownstreamResources();
+    Object.keys(resourceToServerMap).forEach(key => delete resourceToServerMap[key]);
+    resources.forEach(resource => {
+      resourceToServerMap[resource.uri] = resource._serverUuid;
+    });
+    return resources;
+  };
+
+  // Rate limiters for the proxy's own tools and plugged.in API calls; downstream calls are limited per server (see concurrency-limiter.ts)
+  const toolCallRateLimiter = new RateLimiter(60000, 60); // 60 static tool calls per minute
   const apiCallRateLimiter = new RateLimiter(60000, 100); // 100 API calls per minute
   
   const server = new Server(
@@ -221,21 +292,50 @@ export const createServer = async () => {
     },
     {
       capabilities: {
-        prompts: {}, // Enable prompt support capability
-        resources: {},
-        tools: {},
+        prompts: { listChanged: true }, // Enable prompt support capability
+        resources: { listChanged: true },
+        tools: { listChanged: true },
+        logging: {}, // Downstream log messages are relayed to the calling client
       },
     }
   );
 
+  // Minimum log level requested by each upstream session (undefined key for STDIO)
+  const logLevels = new Map<string | undefined, LoggingLevel>();
+
+  // Tell connected clients to re-list whenever the downstream server config changes
+  const unsubscribeConfigChanges = onServerConfigChange(async (diff) => {
+    [...diff.removed, ...diff.changed].forEach(serverUuid => {
+      toolResultCache.invalidateServer(serverUuid);
+      // Changed servers keep their credentials unless their URL changed, which the provider checks
+      oauthProviders.removeProvider(serverUuid, diff.removed.includes(serverUuid));
+    });
+    Object.keys(promptToServerMap).forEach(key => delete promptToServerMap[key]);
+    Object.keys(resourceToServerMap).forEach(key => delete resourceToServerMap[key]);
+
+    const results = await Promise.allSettled([
+      server.sendToolListChanged(),
+      server.sendPromptListChanged(),
+      server.sendResourceListChanged(),
+    ]);
+    results.forEach(result => {
+      if (result.status === "rejected") {
+        debugError("[Proxy] Failed to send list_changed notification:", result.reason);
+      }
+    });
+  });
+
   // List Tools Handler - Fetches tools from Pluggedin App API and adds static tool
-  server.setRequestHandler(ListToolsRequestSchema, async (request) => {
+  server.setRequestHandler(ListToolsRequestSchema, async (request, extra) => {
      const apiKey = getPluggedinMCPApiKey();
      const baseUrl = getPluggedinMCPApiBaseUrl();
+     const localMode = isLocalConfigMode();
+     // Tool policy for this connection (by API key, session or profile header)
+     const access = toolPolicies.resolve(getConnectionIdentity(extra));
      
      // If no API key, return only static tools (for Smithery compatibility)
      // This path should be fast and not rate limited for tool discovery
-     if (!apiKey || !baseUrl) {
+     if (!localMode && (!apiKey || !baseUrl)) {
        // Don't log to console for STDIO transport as it interferes with protocol
        return { 
          tools: [
@@ -245,13 +345,13 @@ export const createServer = async () => {
            listNotificationsStaticTool,
            markNotificationDoneStaticTool,
            deleteNotificationStaticTool
-         ], 
+         ].filter(tool => isToolPermitted(access, getToolIdentity(tool.name))), 
          nextCursor: undefined 
        };
      }
      
      // Rate limit check only for authenticated API calls
-     if (!apiCallRateLimiter.checkLimit()) {
+     if (!localMode && !apiCallRateLimiter.checkLimit()) {
        throw new Error("Rate limit exceeded. Please try again later.");
      }
      
@@ -259,43 +359,56 @@ export const createServer = async () => {
      
      try {
 
-       const apiUrl = `${baseUrl}/api/tools`; // Assuming this is the correct endpoint
+       if (localMode) {
+         // Local config mode - ask the live downstream sessions directly
+         fetchedTools = await listDownstreamTools();
+       } else {
+         const apiUrl = `${baseUrl}/api/tools`; // Assuming this is the correct endpoint
+
+         // Fetch the list of tools (which include original names and server info)
+         // The API returns an object like { tools: [], message?: "..." }
+         const response = await axios.get<{ tools: (Tool & { _serverUuid: string, _serverName?: string })[], message?: string }>(apiUrl, {
+           headers: {
+             Authorization: `Bearer ${apiKey}`,
+           },
+           timeout: 10000,
+         });
+
+         // Access the 'tools' array from the response payload
+         fetchedTools = response.data?.tools || [];
+       }
 
-       // Fetch the list of tools (which include original names and server info)
-       // The API returns an object like { tools: [], message?: "..." }
-       const response = await axios.get<{ tools: (Tool & { _serverUuid: string, _serverName?: string })[], message?: string }>(apiUrl, {
-         headers: {
-           Authorization: `Bearer ${apiKey}`,
-         },
-         timeout: 10000,
+       // Assign client-facing names, namespacing them with the server prefix if configured
+       const namespaceMode = getToolNamespaceMode();
+       const namespaced = namespaceTools(
+         fetchedTools.filter(tool => {
+           if (!tool.name || !tool._serverUuid) {
+             debugError(`[ListTools Handler] Missing tool name or UUID for tool: ${tool.name}`);
+             return false;
+           }
+           return true;
+         }),
+         namespaceMode === 'off' ? {} : await getMcpServers(), // Only needed for toolPrefix aliases
+         namespaceMode,
+         getToolNamespaceSeparator()
+       );
+
+       toolCollisions = namespaced.collisions;
+       describeToolCollisions(toolCollisions).forEach(message => {
+         debugError(`[ListTools Handler] Tool name collision: ${message}`);
        });
 
-       // Access the 'tools' array from the response payload
-       const fetchedTools = response.data?.tools || [];
-
        // Clear previous mapping and populate with new data
        Object.keys(toolToServerMap).forEach(key => delete toolToServerMap[key]); // Clear map
-       
-       // Create mappings for each tool to its server
-       fetchedTools.forEach(tool => {
-         // Store mapping with original name as the key
-         if (tool.name && tool._serverUuid) {
-            toolToServerMap[tool.name] = { 
-              originalName: tool.name, // No transformation needed anymore
-              serverUuid: tool._serverUuid 
-            };
-         } else {
-            debugError(`[ListTools Handler] Missing tool name or UUID for tool: ${tool.name}`);
-         }
-       });
+       Object.assign(toolToServerMap, namespaced.toolMap);
 
        // Prepare the response payload according to MCP spec { tools: Tool[] }
-       const toolsForClient: Tool[] = fetchedTools.map(({ _serverUuid, _serverName, ...rest }) => rest);
+       const toolsForClient: Tool[] = namespaced.tools.map(({ _serverUuid, _serverName, ...rest }) => rest);
 
        // Note: Pagination not handled here, assumes API returns all tools
 
-       // Always include the static tools
-       const allToolsForClient = [
+       // Always include the static tools (document tools need an API key)
+       const allToolsForClient = apiKey && baseUrl ? [
          discoverToolsStaticTool, 
          ragQueryStaticTool,
          createDocumentStaticTool,
@@ -307,10 +420,23 @@ export const createServer = async () => {
          listNotificationsStaticTool,
          markNotificationDoneStaticTool,
          deleteNotificationStaticTool,
+         serverLogsStaticTool,
+         ...toolsForClient
+       ] : [
+         discoverToolsStaticTool, 
+         ragQueryStaticTool, 
+         sendNotificationStaticTool,
+         listNotificationsStaticTool,
+         markNotificationDoneStaticTool,
+         deleteNotificationStaticTool,
+         serverLogsStaticTool,
          ...toolsForClient
        ];
 
-       return { tools: allToolsForClient, nextCursor: undefined };
+       return {
+         tools: allToolsForClient.filter(tool => isToolPermitted(access, getToolIdentity(tool.name, namespaced.toolMap[tool.name]))),
+         nextCursor: undefined
+       };
 
      } catch (error: any) {
        // Log API fetch error but still return the static tool
@@ -325,7 +451,7 @@ export const createServer = async () => {
   });
 
   // Call Tool Handler - Routes tool calls to the appropriate downstream server
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
     const { name: requestedToolName, arguments: args } = request.params;
     const meta = request.params._meta;
 
@@ -339,17 +465,105 @@ export const createServer = async () => {
       throw new Error("Request payload too large");
     }
 
-    // Rate limit check for tool calls
-    if (!toolCallRateLimiter.checkLimit()) {
+    // Enforce the connection's tool policy, even for tools it was never shown
+    const access = toolPolicies.resolve(getConnectionIdentity(extra));
+    const toolRoute = toolToServerMap[requestedToolName];
+    const toolIdentity = getToolIdentity(requestedToolName, toolRoute);
+    if (!isToolPermitted(access, toolIdentity)) {
+      throw new Error(`Tool ${requestedToolName} is not permitted for this connection`);
+    }
+
+    // Rate limit check for static tools, most of which call the plugged.in API
+    if (!toolRoute && !toolCallRateLimiter.checkLimit()) {
       throw new Error("Rate limit exceeded. Please try again later.");
     }
 
     try {
+        // Ask the user before running destructive tools (annotated by the server or tagged by policy)
+        if ((isDestructiveApprovalEnabled() && toolRoute?.destructiveHint === true) || isApprovalRequired(access, toolIdentity)) {
+            await approvalGate.requireApproval(
+                {
+                    toolName: requestedToolName,
+                    serverName: toolIdentity.serverName,
+                    serverUuid: toolRoute?.serverUuid ?? STATIC_TOOLS_SERVER_NAME,
+                    args,
+                },
+                extra,
+                !!server.getClientCapabilities()?.elicitation
+            );
+        }
+
         // Handle static discovery tool first
         if (requestedToolName === discoverToolsStaticTool.name) {
             const validatedArgs = DiscoverToolsInputSchema.parse(args ?? {}); // Validate args
             const { server_uuid, force_refresh } = validatedArgs;
 
+            // Local config mode - discovery is just a live listing of the downstream sessions
+            if (isLocalConfigMode()) {
+                const timer = createExecutionTimer();
+                const fromServer = <T extends { _serverUuid: string }>(items: T[]) =>
+                    server_uuid ? items.filter(item => item._serverUuid === server_uuid) : items;
+
+                const [tools, prompts, resources, templates] = await Promise.all([
+                    // Show tools under the names clients call them by, hiding those the connection's policy denies
+                    listDownstreamTools()
+                        .then(async allTools => namespaceTools(allTools, await getMcpServers(true), getToolNamespaceMode(), getToolNamespaceSeparator()))
+                        .then(namespaced => {
+                            toolCollisions = namespaced.collisions;
+                            return fromServer(namespaced.tools)
+                                .filter(tool => isToolPermitted(access, getToolIdentity(tool.name, namespaced.toolMap[tool.name])));
+                        }),
+                    listDownstreamPrompts().then(fromServer),
+                    listDownstreamResources().then(fromServer),
+                    listDownstreamResourceTemplates().then(fromServer),
+                ]);
+
+                let dataContent = server_uuid
+                    ? `Discovered capabilities of server ${server_uuid} from local config.\n\n`
+                    : `Discovered capabilities of all servers from local config.\n\n`;
+                const sections: [string, { name?: string; uri?: string; uriTemplate?: string; description?: string; _serverName?: string }[]][] = [
+                    ["⚡ Dynamic MCP Tools", tools],
+                    ["💬 Available Prompts", prompts],
+                    ["📄 Available Resources", resources],
+                    ["📋 Available Resource Templates", templates],
+                ];
+                for (const [title, items] of sections) {
+                    dataContent += `## ${title} (${items.length}):\n`;
+                    items.forEach((item, index) => {
+                        dataContent += `${index + 1}. **${item.name || item.uri || item.uriTemplate}**`;
+                        if (item.description) {
+                            dataContent += ` - ${item.description}`;
+                        }
+                        if (item._serverName) {
+                            dataContent += ` [${item._serverName}]`;
+                        }
+                        dataContent += `\n`;
+                    });
+                    dataContent += `\n`;
+                }
+                if (toolCollisions.length > 0) {
+                    dataContent += `## ⚠️ Tool Name Collisions (${toolCollisions.length}):\n`;
+                    describeToolCollisions(toolCollisions).forEach(message => {
+                        dataContent += `- ${message}\n`;
+                    });
+                    dataContent += `\nUse --tool-namespace always or on-collision to expose every tool.\n\n`;
+                }
+
+                logMcpActivity({
+                    action: 'tool_call',
+                    serverName: 'Discovery System (Local Config)',
+                    serverUuid: 'pluggedin_discovery_local',
+                    itemName: requestedToolName,
+                    success: true,
+                    executionTime: timer.stop(),
+                }).catch(() => {}); // Ignore notification errors
+
+                return {
+                    content: [{ type: "text", text: dataContent }],
+                    isError: false,
+                } as ToolExecutionResult;
+            }
+
             const apiKey = getPluggedinMCPApiKey();
             const baseUrl = getPluggedinMCPApiBaseUrl();
             if (!apiKey || !baseUrl) {
@@ -963,6 +1177,7 @@ export const createServer = async () => {
         // Handle static mark notification as read tool
         if (requestedToolName === markNotificationDoneStaticTool.name) {
             const validatedArgs = MarkNotificationDoneInputSchema.parse(args ?? {}); // Validate args
+            await approvalGate.assertNotApprovalNotification(validatedArgs.notificationId);
 
             const apiKey = getPluggedinMCPApiKey();
             const baseUrl = getPluggedinMCPApiBaseUrl();
@@ -1027,6 +1242,7 @@ export const createServer = async () => {
         // Handle static delete notification tool
         if (requestedToolName === deleteNotificationStaticTool.name) {
             const validatedArgs = DeleteNotificationInputSchema.parse(args ?? {}); // Validate args
+            await approvalGate.assertNotApprovalNotification(validatedArgs.notificationId);
 
             const apiKey = getPluggedinMCPApiKey();
             const baseUrl = getPluggedinMCPApiBaseUrl();
@@ -1088,6 +1304,41 @@ export const createServer = async () => {
             }
         }
 
+        // Handle static server logs tool
+        if (requestedToolName === serverLogsStaticTool.name) {
+            const { server: serverRef, lines } = ServerLogsInputSchema.parse(args ?? {});
+            const servers = await getMcpServers();
+            const target = Object.values(servers).find(params => params.uuid === serverRef || params.name === serverRef);
+            if (!target) {
+                throw new Error(`Server not found: ${serverRef}`);
+            }
+
+            const health = getServerHealth(target.uuid);
+            const queue = concurrencyLimiters.getMetrics(target.uuid);
+            const entries = serverStderrLogs.getLines(target.uuid, lines);
+            let responseText = `## ${target.name}\n\n`;
+            if (health) {
+                responseText += `Status: ${health.state} | Restarts: ${health.restarts}${target.maxRestarts !== undefined ? ` of ${target.maxRestarts}` : ''}\n`;
+                if (health.lastError) {
+                    responseText += `Last error: ${health.lastError}\n`;
+                }
+                responseText += '\n';
+            }
+            if (queue) {
+                responseText += `Requests: ${queue.active} running (limit ${queue.maxConcurrent}), ${queue.queued} queued | ` +
+                    `Waited: ${queue.totalQueued} of ${queue.totalRequests}, avg ${queue.averageWaitMs}ms, max ${queue.maxWaitMs}ms | ` +
+                    `Queue timeouts: ${queue.timedOut} | Rejected: ${queue.rejected}\n\n`;
+            }
+            responseText += entries.length > 0
+                ? `Last ${entries.length} stderr line${entries.length !== 1 ? 's' : ''}:\n\n${entries.map(entry => entry.line).join('\n')}`
+                : 'No stderr output captured (only STDIO servers are captured).';
+
+            return {
+                content: [{ type: "text", text: responseText }],
+                isError: false,
+            } as ToolExecutionResult;
+        }
+
         // Handle document tools using StaticToolHandlers
         const staticHandlers = new StaticToolHandlers(toolToServerMap, instructionToServerMap);
         const documentTools = [
@@ -1125,21 +1376,100 @@ export const createServer = async () => {
         if (!params) {
             throw new Error(`Configuration not found for server UUID: ${serverUuid} associated with tool ${requestedToolName}`);
         }
-        const sessionKey = getSessionKey(serverUuid, params);
-        const session = await getSession(sessionKey, serverUuid, params);
 
-        if (!session) {
-            throw new Error(`Session not found for server UUID: ${serverUuid}`);
+        // Serve repeated calls to readOnly/idempotent tools from the result cache when enabled
+        const { [CACHE_META_KEY]: cacheDirective, ...downstreamMeta } = meta ?? {};
+        const cacheLimits = toolResultCache.getLimits(toolInfo, params);
+        const cacheKey = cacheLimits ? toolResultCache.getKey(toolInfo, args) : undefined;
+        const cacheStatus: CacheStatus | undefined = !cacheKey ? undefined : cacheDirective === 'bypass' ? 'bypass' : 'miss';
+        if (cacheKey && cacheStatus === 'miss') {
+            const cachedResult = toolResultCache.get(cacheKey);
+            if (cachedResult !== undefined) {
+                logMcpActivity({
+                    action: 'tool_call',
+                    serverName: params.name || serverUuid,
+                    serverUuid,
+                    itemName: originalName,
+                    success: true,
+                    executionTime: 0,
+                    cacheStatus: 'hit',
+                }).catch(() => {}); // Ignore notification errors
+                return cachedResult as any;
+            }
+        }
+
+        // Fail fast while the supervisor is reconnecting the server instead of waiting on a dead session
+        const unavailableReason = getServerUnavailableReason(serverUuid);
+        if (unavailableReason) {
+            throw new Error(unavailableReason);
+        }
+
+        // Short-circuit calls to a server whose recent calls keep failing or timing out
+        const breaker = circuitBreakers.get(serverUuid, params.name || serverUuid, params.circuitBreaker);
+        if (!breaker.tryAcquire()) {
+            const breakerState = breaker.getState();
+            throw new Error(breakerState === 'open'
+                ? `Circuit breaker for server ${params.name || serverUuid} is open after repeated failures; retry in ${Math.ceil(breaker.getRetryAfterMs() / 1000)}s`
+                : `Circuit breaker for server ${params.name || serverUuid} is half-open; a trial call is already in progress`);
+        }
+
+        // Wait for a free slot on this server (FIFO). A full queue or a queue timeout is
+        // backpressure rather than a server failure, so it is not counted by the breaker
+        let releaseSlot: () => void;
+        try {
+            releaseSlot = await concurrencyLimiters.get(serverUuid, params.name || serverUuid, params.concurrency).acquire(extra.signal);
+        } catch (queueError) {
+            breaker.release();
+            throw queueError;
         }
 
         // Proxy the call to the downstream server using the original tool name
         const timer = createExecutionTimer();
+
+        // A failed connect still frees the slot and completes a half-open breaker trial
+        const sessionKey = getSessionKey(serverUuid, params);
+        let session: ConnectedClient | undefined;
+        try {
+            session = await getSession(sessionKey, serverUuid, params);
+            if (!session) {
+                throw new Error(getServerUnavailableReason(serverUuid) ?? `Session not found for server UUID: ${serverUuid}`);
+            }
+        } catch (sessionError) {
+            releaseSlot();
+            breaker.recordFailure(timer.stop(), sessionError instanceof Error ? sessionError.message : String(sessionError));
+            throw sessionError;
+        }
         
+        // Relay downstream log messages and progress to this upstream request while it is in flight
+        const relay = new UpstreamRequestRelay(session.client, extra.sendNotification, {
+            progressToken: meta?.progressToken,
+            minimumLevel: logLevels.get(extra.sessionId),
+            sessionId: extra.sessionId,
+        });
+
         try {
-            const result = await session.client.request(
-                { method: "tools/call", params: { name: originalName, arguments: args, _meta: meta } },
-                 CompatibilityCallToolResultSchema
-            );
+            // Aborting extra.signal (upstream notifications/cancelled) makes the SDK send
+            // notifications/cancelled to the downstream server as well
+            const result = await trackSessionRequest(sessionKey, session.client.request(
+                { method: "tools/call", params: { name: originalName, arguments: args, _meta: meta && downstreamMeta } },
+                 CompatibilityCallToolResultSchema,
+                 {
+                    signal: extra.signal,
+                    timeout: getToolTimeoutMs(params, originalName),
+                    ...(relay.onprogress && {
+                        onprogress: relay.onprogress,
+                        resetTimeoutOnProgress: true,
+                    }),
+                 }
+            ));
+
+            const executionTime = timer.stop();
+            breaker.recordSuccess(executionTime);
+
+            // Error results are never cached, so a retry reaches the server again
+            if (cacheKey && cacheLimits && !result.isError) {
+                toolResultCache.set(cacheKey, toolInfo, cacheLimits, result);
+            }
 
             // Log successful tool call
             logMcpActivity({
@@ -1148,12 +1478,22 @@ export const createServer = async () => {
                 serverUuid,
                 itemName: originalName,
                 success: true,
-                executionTime: timer.stop(),
+                executionTime,
+                cacheStatus,
             }).catch(() => {}); // Ignore notification errors
 
             // Return the result directly, casting to any to satisfy the handler's complex return type
             return result as any;
         } catch (toolError) {
+            const executionTime = timer.stop();
+            const errorMessage = toolError instanceof Error ? toolError.message : String(toolError);
+            if (extra.signal.aborted) {
+                // Cancelled by the upstream client - not the downstream server's fault
+                breaker.release();
+            } else {
+                breaker.recordFailure(executionTime, errorMessage);
+            }
+
             // Log failed tool call
             logMcpActivity({
                 action: 'tool_call',
@@ -1161,12 +1501,19 @@ export const createServer = async () => {
                 serverUuid,
                 itemName: originalName,
                 success: false,
-                errorMessage: toolError instanceof Error ? toolError.message : String(toolError),
-                executionTime: timer.stop(),
+                errorMessage,
+                executionTime,
             }).catch(() => {}); // Ignore notification errors
             
-            // Re-throw the original error
+            // Re-throw the original error, noting if it just tripped the breaker
+            if (breaker.getState() === 'open' && toolError instanceof Error) {
+                toolError.message = `${toolError.message} (circuit breaker for server ${params.name || serverUuid} is now open)`;
+            }
             throw toolError;
+        } finally {
+            releaseSlot();
+            // Flush relayed notifications so they reach the client before the result
+            await relay.close();
         }
 
     } catch (error) {
@@ -1185,7 +1532,7 @@ export const createServer = async () => {
   });
 
   // Get Prompt Handler - Handles static prompts, custom instructions, and standard prompts
-  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+  server.setRequestHandler(GetPromptRequestSchema, async (request, extra) => {
     const { name, arguments: args } = request.params;
     const meta = request.params._meta;
     const instructionPrefix = 'pluggedin_instruction_';
@@ -1258,6 +1605,13 @@ The Plugged.in MCP Proxy is a powerful gateway that provides access to multiple
   - \`notificationId\` (required): The ID of the notification to delete
 - **Usage**: Remove notifications from your list
 
+### 7. **pluggedin_get_server_logs**
+- **Purpose**: Show the recent stderr output and restart status of a downstream STDIO server
+- **Parameters**:
+  - \`server\` (required): Name or UUID of the server
+  - \`lines\` (optional): Number of most recent lines to return (default: 50)
+- **Usage**: Find out why a server fails to start or keeps crashing
+
 ## 🔗 Proxy Features
 
 ### MCP Server Management
@@ -1313,7 +1667,8 @@ The proxy acts as a unified gateway to all your MCP capabilities while providing
     try {
       const apiKey = getPluggedinMCPApiKey();
       const baseUrl = getPluggedinMCPApiBaseUrl();
-      if (!apiKey || !baseUrl) {
+      const localMode = isLocalConfigMode();
+      if (!localMode && (!apiKey || !baseUrl)) {
         throw new Error("Pluggedin API Key or Base URL is not configured.");
       }
 
@@ -1451,14 +1806,22 @@ The proxy acts as a unified gateway to all your MCP capabilities while providing
 
       } else {
         // --- Handle Standard Prompt Request (Existing Logic) ---
-        // 1. Call the resolve API endpoint to find which server has this prompt
-        const resolveApiUrl = `${baseUrl}/api/resolve/prompt?name=${encodeURIComponent(name)}`;
-        const resolveResponse = await axios.get<{uuid: string}>(resolveApiUrl, {
-          headers: { Authorization: `Bearer ${apiKey}` },
-          timeout: 10000,
-        });
+        // 1. Find which server has this prompt - from the local map or the resolve API endpoint
+        let resolvedData: { uuid: string } | undefined;
+        if (localMode) {
+          if (!promptToServerMap[name]) {
+            await refreshLocalPromptMap();
+          }
+          resolvedData = promptToServerMap[name] ? { uuid: promptToServerMap[name] } : undefined;
+        } else {
+          const resolveApiUrl = `${baseUrl}/api/resolve/prompt?name=${encodeURIComponent(name)}`;
+          const resolveResponse = await axios.get<{uuid: string}>(resolveApiUrl, {
+            headers: { Authorization: `Bearer ${apiKey}` },
+            timeout: 10000,
+          });
+          resolvedData = resolveResponse.data;
+        }
 
-        const resolvedData = resolveResponse.data;
         if (!resolvedData || !resolvedData.uuid) {
           throw new Error(`Could not resolve server details for prompt name: ${name}`);
         }
@@ -1473,6 +1836,8 @@ The proxy acts as a unified gateway to all your MCP capabilities while providing
 
         // 3. Get the downstream server session using fresh config
         const sessionKey = getSessionKey(serverParams.uuid, serverParams);
+        // Requests wait in the server's FIFO queue, like tool calls
+        const limiter = concurrencyLimiters.get(serverParams.uuid, serverParams.name || serverParams.uuid, serverParams.concurrency);
         const session = await getSession(sessionKey, serverParams.uuid, serverParams);
 
         if (!session) {
@@ -1485,10 +1850,11 @@ The proxy acts as a unified gateway to all your MCP capabilities while providing
           const timer = createExecutionTimer();
           
           try {
-            const result = await refreshedSession.client.request(
-              { method: "prompts/get", params: { name, arguments: args, _meta: meta } },
-              GetPromptResultSchema
-            );
+            const result = await trackSessionRequest(sessionKey, limiter.run(() => refreshedSession.client.request(
+                { method: "prompts/get", params: { name, arguments: args, _meta: meta } },
+                GetPromptResultSchema,
+                { signal: extra.signal } // Forward upstream cancellation downstream
+              ), extra.signal));
             
             // Log successful prompt retrieval
             logMcpActivity({
@@ -1520,10 +1886,11 @@ The proxy acts as a unified gateway to all your MCP capabilities while providing
           const timer = createExecutionTimer();
           
           try {
-            const result = await session.client.request(
-              { method: "prompts/get", params: { name, arguments: args, _meta: meta } },
-              GetPromptResultSchema
-            );
+            const result = await trackSessionRequest(sessionKey, limiter.run(() => session.client.request(
+                { method: "prompts/get", params: { name, arguments: args, _meta: meta } },
+                GetPromptResultSchema,
+                { signal: extra.signal } // Forward upstream cancellation downstream
+              ), extra.signal));
             
             // Log successful prompt retrieval
             logMcpActivity({
@@ -1566,6 +1933,18 @@ The proxy acts as a unified gateway to all your MCP capabilities while providing
   // List Prompts Handler - Fetches aggregated list from Pluggedin App API
   server.setRequestHandler(ListPromptsRequestSchema, async (request) => {
     try {
+      // Local config mode - list prompts straight from the downstream sessions
+      if (isLocalConfigMode()) {
+        const downstreamPrompts = await refreshLocalPromptMap();
+        return {
+          prompts: [
+            proxyCapabilitiesStaticPrompt,
+            ...downstreamPrompts.map(({ _serverUuid, _serverName, ...rest }) => rest)
+          ],
+          nextCursor: undefined
+        };
+      }
+
       const apiKey = getPluggedinMCPApiKey();
       const baseUrl = getPluggedinMCPApiBaseUrl();
       if (!apiKey || !baseUrl) {
@@ -1632,6 +2011,15 @@ The proxy acts as a unified gateway to all your MCP capabilities while providing
   // List Resources Handler - Fetches aggregated list from Pluggedin App API
   server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
     try {
+      // Local config mode - list resources straight from the downstream sessions
+      if (isLocalConfigMode()) {
+        const downstreamResources = await refreshLocalResourceMap();
+        return {
+          resources: downstreamResources.map(({ _serverUuid, _serverName, ...rest }) => rest),
+          nextCursor: undefined
+        };
+      }
+
       const apiKey = getPluggedinMCPApiKey();
       const baseUrl = getPluggedinMCPApiBaseUrl();
       if (!apiKey || !baseUrl) {
@@ -1673,32 +2061,46 @@ The proxy acts as a unified gateway to all your MCP capabilities while providing
   // It needs to be refactored to proxy the read request to the correct downstream server,
   // potentially by calling a new API endpoint on pluggedin-app or by re-establishing a session.
   // Refactored Read Resource Handler - Uses API to resolve URI to server details
-  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+  server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) => {
     const { uri } = request.params;
     const meta = request.params._meta; // Pass meta along
 
     try {
-        const apiKey = getPluggedinMCPApiKey();
-        const baseUrl = getPluggedinMCPApiBaseUrl();
-        if (!apiKey || !baseUrl) {
-            throw new Error("Pluggedin API Key or Base URL is not configured for resource resolution.");
-        }
+        let serverParams: ServerParameters | undefined;
 
-        // 1. Call the new API endpoint to resolve the URI
-        const resolveApiUrl = `${baseUrl}/api/resolve/resource?uri=${encodeURIComponent(uri)}`;
+        if (isLocalConfigMode()) {
+            // 1. Local config mode - resolve the URI from the resources listed by downstream sessions
+            if (!resourceToServerMap[uri]) {
+                await refreshLocalResourceMap();
+            }
+            const serverUuid = resourceToServerMap[uri];
+            serverParams = serverUuid ? (await getMcpServers())[serverUuid] : undefined;
+        } else {
+            const apiKey = getPluggedinMCPApiKey();
+            const baseUrl = getPluggedinMCPApiBaseUrl();
+            if (!apiKey || !baseUrl) {
+                throw new Error("Pluggedin API Key or Base URL is not configured for resource resolution.");
+            }
 
-        const resolveResponse = await axios.get<ServerParameters>(resolveApiUrl, { // Expect ServerParameters type
-            headers: { Authorization: `Bearer ${apiKey}` },
-            timeout: 10000, // Timeout for resolution call
-        });
+            // 1. Call the new API endpoint to resolve the URI
+            const resolveApiUrl = `${baseUrl}/api/resolve/resource?uri=${encodeURIComponent(uri)}`;
+
+            const resolveResponse = await axios.get<ServerParameters>(resolveApiUrl, { // Expect ServerParameters type
+                headers: { Authorization: `Bearer ${apiKey}` },
+                timeout: 10000, // Timeout for resolution call
+            });
+
+            serverParams = resolveResponse.data;
+        }
 
-        const serverParams = resolveResponse.data;
         if (!serverParams || !serverParams.uuid) {
             throw new Error(`Could not resolve server details for URI: ${uri}`);
         }
 
         // 2. Get the downstream server session using resolved details
         const sessionKey = getSessionKey(serverParams.uuid, serverParams);
+        // Requests wait in the server's FIFO queue, like tool calls
+        const limiter = concurrencyLimiters.get(serverParams.uuid, serverParams.name || serverParams.uuid, serverParams.concurrency);
         // Ensure session is established before proceeding
         const session = await getSession(sessionKey, serverParams.uuid, serverParams);
 
@@ -1715,10 +2117,11 @@ The proxy acts as a unified gateway to all your MCP capabilities while providing
              const timer = createExecutionTimer();
              
              try {
-               const result = await refreshedSession.client.request(
-                   { method: "resources/read", params: { uri, _meta: meta } }, // Pass original URI and meta
-                   ReadResourceResultSchema
-               );
+               const result = await trackSessionRequest(sessionKey, limiter.run(() => refreshedSession.client.request(
+                     { method: "resources/read", params: { uri, _meta: meta } }, // Pass original URI and meta
+                     ReadResourceResultSchema,
+                     { signal: extra.signal } // Forward upstream cancellation downstream
+                 ), extra.signal));
                
                // Log successful resource read
                logMcpActivity({
@@ -1750,10 +2153,11 @@ The proxy acts as a unified gateway to all your MCP capabilities while providing
              const timer = createExecutionTimer();
              
              try {
-               const result = await session.client.request(
-                   { method: "resources/read", params: { uri, _meta: meta } }, // Pass original URI and meta
-                   ReadResourceResultSchema
-               );
+               const result = await trackSessionRequest(sessionKey, limiter.run(() => session.client.request(
+                     { method: "resources/read", params: { uri, _meta: meta } }, // Pass original URI and meta
+                     ReadResourceResultSchema,
+                     { signal: extra.signal } // Forward upstream cancellation downstream
+                 ), extra.signal));
                
                // Log successful resource read
                logMcpActivity({
@@ -1797,6 +2201,15 @@ The proxy acts as a unified gateway to all your MCP capabilities while providing
   // List Resource Templates Handler - Fetches aggregated list from Pluggedin App API
   server.setRequestHandler(ListResourceTemplatesRequestSchema, async (request) => {
     try {
+      // Local config mode - list templates straight from the downstream sessions
+      if (isLocalConfigMode()) {
+        const downstreamTemplates = await listDownstreamResourceTemplates();
+        return {
+          resourceTemplates: downstreamTemplates.map(({ _serverUuid, _serverName, ...rest }) => rest),
+          nextCursor: undefined
+        };
+      }
+
       const apiKey = getPluggedinMCPApiKey();
       const baseUrl = getPluggedinMCPApiBaseUrl();
       if (!apiKey || !baseUrl) {
@@ -1833,6 +2246,12 @@ The proxy acts as a unified gateway to all your MCP capabilities while providing
     }
   });
 
+  // Logging Level Handler - Sets the minimum level of relayed downstream log messages for the calling session
+  server.setRequestHandler(SetLevelRequestSchema, async (request, extra) => {
+    logLevels.set(extra.sessionId, request.params.level);
+    return {};
+  });
+
   // Ping Handler - Responds to simple ping requests
   server.setRequestHandler(PingRequestSchema, async (request) => {
     
@@ -1853,21 +2272,40 @@ The proxy acts as a unified gateway to all your MCP capabilities while providing
 
   const cleanup = async () => {
     try {
-      // Clean up sessions
-      await cleanupAllSessions();
-      
+      unsubscribeConfigChanges();
+      logLevels.clear();
+
       // Clear tool mappings
       Object.keys(toolToServerMap).forEach(key => delete toolToServerMap[key]);
       Object.keys(instructionToServerMap).forEach(key => delete instructionToServerMap[key]);
-      
-      // Reset rate limiters
-      toolCallRateLimiter.reset();
+      Object.keys(promptToServerMap).forEach(key => delete promptToServerMap[key]);
+      Object.keys(resourceToServerMap).forEach(key => delete resourceToServerMap[key]);
       apiCallRateLimiter.reset();
+
+      if (options.perSession) {
+        return;
+      }
+
+      // Clean up sessions
+      await cleanupAllSessions();
+      
+      // Reset concurrency limiters and circuit breakers
+      concurrencyLimiters.reset();
+      circuitBreakers.reset();
+      approvalGate.reset();
+      toolResultCache.clear();
+      oauthProviders.reset();
+      serverStderrLogs.clear();
       
     } catch (error) {
       debugError("[Proxy Cleanup] Error during cleanup:", error);
     }
   };
 
-  return { server, cleanup };
+  // Forgets an upstream session's log level once the session has closed
+  const forgetSession = (sessionId: string) => {
+    logLevels.delete(sessionId);
+  };
+
+  return { server, cleanup, forgetSession };
 };
@@ -3,13 +3,14 @@ import { getPluggedinMCPApiKey, getPluggedinMCPApiBaseUrl } from './utils.js';
 import { debugError } from './debug-log.js';
 
 export interface McpActivityData {
-  action: 'tool_call' | 'prompt_get' | 'resource_read';
+  action: 'tool_call' | 'prompt_get' | 'resource_read' | 'circuit_breaker' | 'tool_approval';
   serverName: string;
   serverUuid: string;
   itemName: string;
   success: boolean;
   errorMessage?: string;
   executionTime?: number;
+  cacheStatus?: 'hit' | 'miss' | 'bypass'; // Set for tool calls eligible for the result cache
 }
 
 /**
@@ -0,0 +1,119 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import {
+  LoggingLevel,
+  LoggingMessageNotification,
+  LoggingMessageNotificationSchema,
+  Progress,
+  ProgressToken,
+  ServerNotification,
+} from "@modelcontextprotocol/sdk/types.js";
+import { debugError, debugLog } from "./debug-log.js";
+
+/**
+ * Sends a notification back over the upstream transport that carried the originating request.
+ * In handlers this is RequestHandlerExtra.sendNotification, which tags the notification with
+ * the related request ID so Streamable HTTP routes it to the right session and stream.
+ */
+export type UpstreamNotifier = (notification: ServerNotification) => Promise<void>;
+
+export interface UpstreamRelayOptions {
+  progressToken?: ProgressToken; // Token from the upstream request's _meta, if it asked for progress
+  minimumLevel?: LoggingLevel; // Level the upstream session asked for via logging/setLevel
+  sessionId?: string; // Upstream session that made the request (undefined for STDIO)
+}
+
+// RFC 5424 severities in ascending order, as used by logging/setLevel
+const LOG_LEVELS: LoggingLevel[] = ["debug", "info", "notice", "warning", "error", "critical", "alert", "emergency"];
+
+// Upstream requests currently waiting on each downstream client. One downstream Client is
+// shared by every upstream session, and log messages carry no request ID to route them by.
+const inFlightRequests = new WeakMap<Client, Set<UpstreamRequestRelay>>();
+
+/**
+ * Picks the upstream request a downstream log message belongs to. It is only relayed when every
+ * in-flight request comes from the same upstream session, so it can never reach another session.
+ * With several requests of that session in flight it goes to the oldest one, so it is sent once.
+ */
+function findLogTarget(relays: Set<UpstreamRequestRelay> | undefined): UpstreamRequestRelay | undefined {
+  const [oldest, ...others] = relays ?? [];
+  return oldest && others.every((relay) => relay.sessionId === oldest.sessionId) ? oldest : undefined;
+}
+
+/**
+ * Installs the downstream log message handler on a client (once per client).
+ */
+function ensureLogRelay(client: Client): Set<UpstreamRequestRelay> {
+  let relays = inFlightRequests.get(client);
+  if (relays) {
+    return relays;
+  }
+  relays = new Set();
+  inFlightRequests.set(client, relays);
+
+  client.setNotificationHandler(LoggingMessageNotificationSchema, (notification) => {
+    const target = findLogTarget(inFlightRequests.get(client));
+    if (target) {
+      target.relayLog(notification);
+    } else {
+      debugLog("[Notification Relay] Dropped a downstream log message: requests of several sessions are in flight");
+    }
+  });
+  return relays;
+}
+
+/**
+ * Relays progress and log notifications from a downstream server to the upstream request
+ * that is waiting on it. Notifications are sent in order, and close() waits for them so
+ * none arrive after the upstream response.
+ */
+export class UpstreamRequestRelay {
+  private pending: Promise<void> = Promise.resolve();
+  private relays: Set<UpstreamRequestRelay>;
+
+  /**
+   * Progress callback for the downstream request, or undefined if the upstream client did
+   * not ask for progress. The SDK swaps in its own progress token for the downstream
+   * request, so the upstream client's original token is restored here.
+   */
+  readonly onprogress?: (progress: Progress) => void;
+
+  constructor(client: Client, private notify: UpstreamNotifier, private options: UpstreamRelayOptions = {}) {
+    this.relays = ensureLogRelay(client);
+    this.relays.add(this);
+
+    const { progressToken } = options;
+    if (progressToken !== undefined) {
+      this.onprogress = (progress) => {
+        this.send({ method: "notifications/progress", params: { ...progress, progressToken } });
+      };
+    }
+  }
+
+  get sessionId(): string | undefined {
+    return this.options.sessionId;
+  }
+
+  relayLog(notification: LoggingMessageNotification): void {
+    const { minimumLevel } = this.options;
+    if (minimumLevel && LOG_LEVELS.indexOf(notification.params.level) < LOG_LEVELS.indexOf(minimumLevel)) {
+      return;
+    }
+    this.send(notification);
+  }
+
+  /**
+   * Stops relaying and waits for notifications already queued.
+   */
+  async close(): Promise<void> {
+    this.relays.delete(this);
+    await this.pending;
+  }
+
+  private send(notification: ServerNotification): void {
+    this.pending = this.pending
+      .then(() => this.notify(notification))
+      .catch((error) => {
+        debugError(`[Notification Relay] Failed to relay ${notification.method}:`, error);
+      });
+  }
+}
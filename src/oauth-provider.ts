@@ -0,0 +1,443 @@
+import crypto from "crypto";
+import http from "http";
+import os from "os";
+import path from "path";
+import { spawn } from "child_process";
+import { chmodSync, existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { OAuthClientProvider } from "@modelcontextprotocol/sdk/client/auth.js";
+import {
+  OAuthClientInformation,
+  OAuthClientInformationFull,
+  OAuthClientMetadata,
+  OAuthTokens,
+} from "@modelcontextprotocol/sdk/shared/auth.js";
+import { ServerParameters } from "./types.js";
+import { debugError, debugLog } from "./debug-log.js";
+
+export interface OAuthOptions {
+  storageDir: string; // Where encrypted credentials are kept, one file per server UUID
+  callbackPort: number; // Loopback port the authorization server redirects to
+  authorizationTimeoutMs: number; // How long to wait for the user to finish authorizing
+  openBrowser: boolean; // Open the authorization URL in the default browser
+}
+
+/**
+ * Everything persisted for one server: the (dynamically registered) client,
+ * its tokens and the PKCE verifier of an authorization in progress.
+ */
+export interface StoredOAuthCredentials {
+  serverUrl?: string; // The URL the credentials were issued for; they are never sent anywhere else
+  clientInformation?: OAuthClientInformationFull;
+  tokens?: OAuthTokens;
+  codeVerifier?: string;
+}
+
+const DEFAULT_OPTIONS: OAuthOptions = {
+  storageDir: path.join(os.homedir(), ".pluggedin-mcp", "oauth"),
+  callbackPort: 33418,
+  authorizationTimeoutMs: 300000,
+  openBrowser: true,
+};
+
+const CALLBACK_PATH = "/oauth/callback";
+const KEY_FILE_NAME = ".key";
+
+/**
+ * Stores OAuth credentials on disk, encrypted with AES-256-GCM.
+ * The key is derived from PLUGGEDIN_OAUTH_ENCRYPTION_KEY if set, otherwise a random
+ * key is generated once and kept next to the credentials (readable by the owner only).
+ */
+export class OAuthCredentialStore {
+  private key: Buffer | undefined;
+
+  constructor(private readonly storageDir: string) {}
+
+  load(serverUuid: string): StoredOAuthCredentials {
+    const filePath = this.getFilePath(serverUuid);
+    if (!existsSync(filePath)) {
+      return {};
+    }
+    try {
+      const { iv, tag, data } = JSON.parse(readFileSync(filePath, "utf-8"));
+      const decipher = crypto.createDecipheriv("aes-256-gcm", this.getKey(), Buffer.from(iv, "base64"));
+      decipher.setAuthTag(Buffer.from(tag, "base64"));
+      const plaintext = Buffer.concat([decipher.update(Buffer.from(data, "base64")), decipher.final()]);
+      return JSON.parse(plaintext.toString("utf-8"));
+    } catch (error) {
+      // A changed encryption key or a corrupted file means the user has to authorize again
+      debugError(`[OAuth] Discarding unreadable credentials for server ${serverUuid}:`, error);
+      return {};
+    }
+  }
+
+  save(serverUuid: string, credentials: StoredOAuthCredentials): void {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv("aes-256-gcm", this.getKey(), iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(credentials), "utf-8"), cipher.final()]);
+    writeFileSync(
+      this.getFilePath(serverUuid),
+      JSON.stringify({
+        iv: iv.toString("base64"),
+        tag: cipher.getAuthTag().toString("base64"),
+        data: data.toString("base64"),
+      }),
+      { mode: 0o600 }
+    );
+  }
+
+  delete(serverUuid: string): void {
+    rmSync(this.getFilePath(serverUuid), { force: true });
+  }
+
+  private getFilePath(serverUuid: string): string {
+    // UUIDs come from the API or a config file, so never let them escape the storage directory
+    const fileName = serverUuid.replace(/[^a-zA-Z0-9_-]/g, "_");
+    return path.join(this.ensureStorageDir(), `${fileName}.json`);
+  }
+
+  private getKey(): Buffer {
+    if (this.key) {
+      return this.key;
+    }
+
+    const secret = process.env.PLUGGEDIN_OAUTH_ENCRYPTION_KEY;
+    if (secret && secret.length > 0) {
+      this.key = crypto.createHash("sha256").update(secret).digest();
+      return this.key;
+    }
+
+    const keyPath = path.join(this.ensureStorageDir(), KEY_FILE_NAME);
+    if (existsSync(keyPath)) {
+      this.key = Buffer.from(readFileSync(keyPath, "utf-8").trim(), "base64");
+    } else {
+      this.key = crypto.randomBytes(32);
+      writeFileSync(keyPath, this.key.toString("base64"), { mode: 0o600 });
+    }
+    return this.key;
+  }
+
+  private ensureStorageDir(): string {
+    if (!existsSync(this.storageDir)) {
+      mkdirSync(this.storageDir, { recursive: true, mode: 0o700 });
+      chmodSync(this.storageDir, 0o700);
+    }
+    return this.storageDir;
+  }
+}
+
+interface PendingCallback {
+  resolve: (code: string) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Loopback HTTP listener (127.0.0.1 only) that receives authorization redirects.
+ * One listener serves every server; redirects are matched to the waiting
+ * authorization by their state parameter. It only runs while authorizations are pending.
+ */
+export class OAuthCallbackServer {
+  private server: http.Server | undefined;
+  private pending = new Map<string, PendingCallback>();
+
+  constructor(private readonly port: number) {}
+
+  get redirectUrl(): string {
+    return `http://127.0.0.1:${this.port}${CALLBACK_PATH}`;
+  }
+
+  /**
+   * Resolves with the authorization code of the redirect carrying this state.
+   * @throws Error if the user denies access or does not finish in time
+   */
+  async waitForCode(state: string, timeoutMs: number): Promise<string> {
+    await this.listen();
+    return new Promise<string>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.settle(state);
+        reject(new Error(`Timed out after ${timeoutMs}ms waiting for OAuth authorization`));
+      }, timeoutMs);
+      this.pending.set(state, { resolve, reject, timer });
+    });
+  }
+
+  close(): void {
+    for (const [state, { reject }] of this.pending) {
+      this.settle(state);
+      reject(new Error("OAuth authorization cancelled"));
+    }
+  }
+
+  private async listen(): Promise<void> {
+    if (this.server) {
+      return;
+    }
+    const server = http.createServer((req, res) => this.handleRequest(req, res));
+    this.server = server;
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", (error) => {
+        this.server = undefined;
+        reject(new Error(`Failed to listen for OAuth redirects on port ${this.port}: ${error.message}`));
+      });
+      server.listen(this.port, "127.0.0.1", () => resolve());
+    });
+    debugLog(`[OAuth] Listening for authorization redirects on ${this.redirectUrl}`);
+  }
+
+  private handleRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const url = new URL(req.url || "/", this.redirectUrl);
+    const state = url.searchParams.get("state");
+    const waiting = url.pathname === CALLBACK_PATH && state ? this.pending.get(state) : undefined;
+    if (!waiting) {
+      res.writeHead(404, { "Content-Type": "text/plain" });
+      res.end("No authorization is waiting for this request.");
+      return;
+    }
+
+    this.settle(state!);
+    const code = url.searchParams.get("code");
+    const error = url.searchParams.get("error");
+    res.writeHead(code ? 200 : 400, { "Content-Type": "text/plain" });
+    if (code) {
+      res.end("Authorization complete. You can close this window.");
+      waiting.resolve(code);
+    } else {
+      res.end("Authorization failed. You can close this window.");
+      waiting.reject(new Error(`OAuth authorization failed: ${url.searchParams.get("error_description") || error || "no code returned"}`));
+    }
+  }
+
+  private settle(state: string): void {
+    const waiting = this.pending.get(state);
+    if (waiting) {
+      clearTimeout(waiting.timer);
+      this.pending.delete(state);
+    }
+    if (this.pending.size === 0 && this.server) {
+      this.server.close();
+      this.server = undefined;
+    }
+  }
+}
+
+// Authorization URLs come from remote server metadata, so only real web pages are opened
+function isBrowsableUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === "https:" ||
+      (parsed.protocol === "http:" && ["localhost", "127.0.0.1", "[::1]"].includes(parsed.hostname));
+  } catch {
+    return false;
+  }
+}
+
+function openInBrowser(url: string): void {
+  if (!isBrowsableUrl(url)) {
+    debugError(`[OAuth] Not opening authorization URL with an unexpected scheme or host: ${url}`);
+    return;
+  }
+  // No shell is involved on any platform: cmd's "start" would treat & and | in the URL as commands
+  const [command, args] =
+    process.platform === "darwin" ? ["open", [url]] :
+    process.platform === "win32" ? ["rundll32", ["url.dll,FileProtocolHandler", url]] :
+    ["xdg-open", [url]];
+  try {
+    const child = spawn(command, args as string[], { detached: true, stdio: "ignore" });
+    child.on("error", () => {}); // No browser available; the URL is printed as well
+    child.unref();
+  } catch {}
+}
+
+/**
+ * OAuth client provider for one downstream server, implementing the authorization
+ * code flow with PKCE. Clients are registered dynamically unless a clientId is
+ * configured; tokens are refreshed by the SDK when the server answers 401.
+ */
+export class PluggedinOAuthProvider implements OAuthClientProvider {
+  private credentials: StoredOAuthCredentials;
+  private authorization: Promise<string> | undefined;
+  private currentState: string | undefined;
+
+  constructor(
+    private readonly serverParams: ServerParameters,
+    private readonly store: OAuthCredentialStore,
+    private readonly callbacks: OAuthCallbackServer,
+    private readonly options: OAuthOptions
+  ) {
+    this.credentials = store.load(serverParams.uuid);
+    if (this.credentials.serverUrl !== this.serverUrl) {
+      // The server moved (or the credentials predate URL tracking) - never send its tokens to a new host
+      if (Object.keys(this.credentials).length > 0) {
+        debugLog(`[OAuth] Discarding credentials of server ${serverParams.name}, its URL changed`);
+        store.delete(serverParams.uuid);
+      }
+      this.credentials = {};
+    }
+    // A configured token seeds the store until the flow produces one of its own
+    if (!this.credentials.tokens && serverParams.oauthToken) {
+      this.credentials.tokens = { access_token: serverParams.oauthToken, token_type: "Bearer" };
+    }
+  }
+
+  get redirectUrl(): string {
+    return this.callbacks.redirectUrl;
+  }
+
+  get serverUrl(): string | undefined {
+    return this.serverParams.url ?? undefined;
+  }
+
+  get clientMetadata(): OAuthClientMetadata {
+    const { clientSecret, scopes } = this.serverParams.oauth ?? {};
+    return {
+      client_name: `Plugged.in MCP Proxy (${this.serverParams.name})`,
+      redirect_uris: [this.redirectUrl],
+      grant_types: ["authorization_code", "refresh_token"],
+      response_types: ["code"],
+      token_endpoint_auth_method: clientSecret ? "client_secret_post" : "none",
+      ...(scopes && scopes.length > 0 && { scope: scopes.join(" ") }),
+    };
+  }
+
+  state(): string {
+    this.currentState = crypto.randomBytes(16).toString("hex");
+    return this.currentState;
+  }
+
+  clientInformation(): OAuthClientInformation | undefined {
+    const { clientId, clientSecret } = this.serverParams.oauth ?? {};
+    if (clientId) {
+      return { client_id: clientId, ...(clientSecret && { client_secret: clientSecret }) };
+    }
+    return this.credentials.clientInformation;
+  }
+
+  saveClientInformation(clientInformation: OAuthClientInformationFull): void {
+    this.update({ clientInformation });
+  }
+
+  tokens(): OAuthTokens | undefined {
+    return this.credentials.tokens;
+  }
+
+  saveTokens(tokens: OAuthTokens): void {
+    this.update({ tokens, codeVerifier: undefined });
+  }
+
+  saveCodeVerifier(codeVerifier: string): void {
+    this.update({ codeVerifier });
+  }
+
+  codeVerifier(): string {
+    if (!this.credentials.codeVerifier) {
+      throw new Error(`No OAuth authorization in progress for server ${this.serverParams.name}`);
+    }
+    return this.credentials.codeVerifier;
+  }
+
+  invalidateCredentials(scope: "all" | "client" | "tokens" | "verifier"): void {
+    if (scope === "all") {
+      this.credentials = {};
+      this.store.delete(this.serverParams.uuid);
+      return;
+    }
+    this.update(
+      scope === "client" ? { clientInformation: undefined } :
+      scope === "tokens" ? { tokens: undefined } :
+      { codeVerifier: undefined }
+    );
+  }
+
+  async redirectToAuthorization(authorizationUrl: URL): Promise<void> {
+    const state = this.currentState ?? authorizationUrl.searchParams.get("state") ?? "";
+    this.authorization = this.callbacks.waitForCode(state, this.options.authorizationTimeoutMs);
+    this.authorization.catch(() => {}); // Surfaced by waitForAuthorizationCode
+
+    // stderr is safe in STDIO mode and is where MCP clients show server logs
+    console.error(`Server ${this.serverParams.name} requires authorization. Open this URL to continue:\n${authorizationUrl.href}`);
+    if (this.options.openBrowser) {
+      openInBrowser(authorizationUrl.href);
+    }
+  }
+
+  /**
+   * Whether the last connection attempt started an authorization that has not been consumed yet.
+   */
+  isAwaitingAuthorization(): boolean {
+    return this.authorization !== undefined;
+  }
+
+  /**
+   * Waits for the user to finish the authorization started by the SDK and returns
+   * the authorization code, to be passed to the transport's finishAuth().
+   */
+  async waitForAuthorizationCode(): Promise<string> {
+    const authorization = this.authorization;
+    if (!authorization) {
+      throw new Error(`No OAuth authorization in progress for server ${this.serverParams.name}`);
+    }
+    try {
+      return await authorization;
+    } finally {
+      this.authorization = undefined;
+    }
+  }
+
+  private update(changes: Partial<StoredOAuthCredentials>): void {
+    this.credentials = { ...this.credentials, ...changes, serverUrl: this.serverUrl };
+    try {
+      this.store.save(this.serverParams.uuid, this.credentials);
+    } catch (error) {
+      // Keep working with in-memory credentials; the user will have to authorize again after a restart
+      debugError(`[OAuth] Failed to persist credentials for server ${this.serverParams.name}:`, error);
+    }
+  }
+}
+
+/**
+ * Creates and caches OAuth providers per server UUID, so an authorization started
+ * during one connection attempt can be finished by the next.
+ */
+export class OAuthProviderRegistry {
+  private options: OAuthOptions = { ...DEFAULT_OPTIONS };
+  private providers = new Map<string, PluggedinOAuthProvider>();
+  private store: OAuthCredentialStore | undefined;
+  private callbacks: OAuthCallbackServer | undefined;
+
+  configure(options: Partial<OAuthOptions>): void {
+    this.reset();
+    this.options = { ...this.options, ...options };
+  }
+
+  getProvider(serverParams: ServerParameters): PluggedinOAuthProvider {
+    let provider = this.providers.get(serverParams.uuid);
+    if (!provider || provider.serverUrl !== (serverParams.url ?? undefined)) {
+      this.store ??= new OAuthCredentialStore(this.options.storageDir);
+      this.callbacks ??= new OAuthCallbackServer(this.options.callbackPort);
+      provider = new PluggedinOAuthProvider(serverParams, this.store, this.callbacks, this.options);
+      this.providers.set(serverParams.uuid, provider);
+    }
+    return provider;
+  }
+
+  /**
+   * Drops a server's provider, e.g. after its config changed, and its stored credentials
+   * too when the server is gone for good.
+   */
+  removeProvider(serverUuid: string, deleteCredentials = false): void {
+    this.providers.delete(serverUuid);
+    if (deleteCredentials) {
+      this.store ??= new OAuthCredentialStore(this.options.storageDir);
+      this.store.delete(serverUuid);
+    }
+  }
+
+  reset(): void {
+    this.callbacks?.close();
+    this.providers.clear();
+    this.store = undefined;
+    this.callbacks = undefined;
+  }
+}
+
+export const oauthProviders = new OAuthProviderRegistry();
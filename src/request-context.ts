@@ -0,0 +1,25 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+/**
+ * Per-request state for multi-tenant Streamable HTTP, where each HTTP session
+ * authenticates with its own plugged.in API key instead of PLUGGEDIN_API_KEY.
+ */
+export interface RequestContext {
+  apiKey?: string;
+}
+
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Runs fn, and everything it starts asynchronously, with the given request context.
+ */
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return requestContext.run(context, fn);
+}
+
+/**
+ * Returns the context of the request being handled, or undefined outside of a tenant request.
+ */
+export function getRequestContext(): RequestContext | undefined {
+  return requestContext.getStore();
+}
@@ -0,0 +1,155 @@
+import crypto from "crypto";
+import { ServerParameters, ToolsCacheEntry } from "./types.js";
+import { canonicalizeJson } from "./utils.js";
+import { debugLog } from "./debug-log.js";
+
+// _meta key clients can set to "bypass" to skip the cache for one call (the fresh result is still stored)
+export const CACHE_META_KEY = "pluggedin/cache";
+
+export type CacheStatus = 'hit' | 'miss' | 'bypass';
+
+export interface ToolCacheLimits {
+  ttlMs: number; // How long a result stays fresh
+  maxEntries: number; // Results kept per tool; the least recently used are evicted first
+  maxEntryBytes: number; // Larger results are not cached
+}
+
+export interface ToolResultCacheOptions extends ToolCacheLimits {
+  enabled: boolean; // Cache readOnly/idempotent tools on every server
+  maxTotalEntries: number; // Upper bound across all tools
+}
+
+/**
+ * The downstream tool being called, with what is known about its side effects.
+ */
+export interface CacheableTool {
+  serverUuid: string;
+  originalName: string;
+  readOnlyHint?: boolean;
+  idempotentHint?: boolean;
+}
+
+const DEFAULT_OPTIONS: ToolResultCacheOptions = {
+  enabled: false,
+  ttlMs: 60000,
+  maxEntries: 100,
+  maxEntryBytes: 1024 * 1024,
+  maxTotalEntries: 1000,
+};
+
+/**
+ * Opt-in cache of downstream tool results, keyed by server UUID, tool name and
+ * canonicalized arguments. Only tools annotated readOnlyHint or idempotentHint are
+ * cached, unless a server's toolCache config enables or disables a tool explicitly.
+ */
+export class ToolResultCache {
+  private options: ToolResultCacheOptions = { ...DEFAULT_OPTIONS };
+  // Map iteration order doubles as LRU order: entries are re-inserted on every hit
+  private entries = new Map<string, ToolsCacheEntry & { toolKey: string }>();
+  private toolEntryCounts = new Map<string, number>();
+
+  configure(options: Partial<ToolResultCacheOptions>): void {
+    this.options = { ...this.options, ...options };
+    this.clear();
+  }
+
+  /**
+   * Returns the cache limits for a tool, or undefined if its results must not be cached.
+   */
+  getLimits(tool: CacheableTool, params: ServerParameters): ToolCacheLimits | undefined {
+    const serverConfig = params.toolCache;
+    const toolConfig = serverConfig?.tools?.[tool.originalName];
+
+    const enabled = toolConfig?.enabled
+      ?? ((serverConfig?.enabled ?? this.options.enabled) && (tool.readOnlyHint === true || tool.idempotentHint === true));
+    if (!enabled) {
+      return undefined;
+    }
+
+    return {
+      ttlMs: toolConfig?.ttlMs ?? serverConfig?.ttlMs ?? this.options.ttlMs,
+      maxEntries: toolConfig?.maxEntries ?? serverConfig?.maxEntries ?? this.options.maxEntries,
+      maxEntryBytes: toolConfig?.maxEntryBytes ?? serverConfig?.maxEntryBytes ?? this.options.maxEntryBytes,
+    };
+  }
+
+  getKey(tool: CacheableTool, args: unknown): string {
+    return crypto
+      .createHash("sha256")
+      .update(canonicalizeJson([tool.serverUuid, tool.originalName, args ?? {}]))
+      .digest("hex");
+  }
+
+  get(key: string): unknown | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.delete(key);
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return JSON.parse(entry.value);
+  }
+
+  set(key: string, tool: CacheableTool, limits: ToolCacheLimits, result: unknown): void {
+    const value = JSON.stringify(result);
+    if (Buffer.byteLength(value) > limits.maxEntryBytes) {
+      debugLog(`[Tool Cache] Not caching ${tool.originalName}: result exceeds ${limits.maxEntryBytes} bytes`);
+      return;
+    }
+
+    const toolKey = `${tool.serverUuid}:${tool.originalName}`;
+    this.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + limits.ttlMs, toolKey });
+    this.toolEntryCounts.set(toolKey, (this.toolEntryCounts.get(toolKey) ?? 0) + 1);
+
+    // Evict least recently used entries of this tool, then across all tools
+    if (this.toolEntryCounts.get(toolKey)! > limits.maxEntries) {
+      for (const [candidate, entry] of this.entries) {
+        if (entry.toolKey === toolKey) {
+          this.delete(candidate);
+          break;
+        }
+      }
+    }
+    while (this.entries.size > this.options.maxTotalEntries) {
+      this.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  /**
+   * Drops every cached result of a server, e.g. after its config changed.
+   */
+  invalidateServer(serverUuid: string): void {
+    for (const [key, entry] of this.entries) {
+      if (entry.toolKey.startsWith(`${serverUuid}:`)) {
+        this.delete(key);
+      }
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.toolEntryCounts.clear();
+  }
+
+  private delete(key: string): void {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return;
+    }
+    this.entries.delete(key);
+    const count = (this.toolEntryCounts.get(entry.toolKey) ?? 1) - 1;
+    if (count > 0) {
+      this.toolEntryCounts.set(entry.toolKey, count);
+    } else {
+      this.toolEntryCounts.delete(entry.toolKey);
+    }
+  }
+}
+
+export const toolResultCache = new ToolResultCache();
@@ -0,0 +1,173 @@
+import path from "path";
+import { closeSync, openSync, readSync, realpathSync } from "fs";
+import { ServerParameters } from "./types.js";
+import { findExecutable, isLocalConfigMode, isStdioSandboxEnabled } from "./utils.js";
+import { debugLog } from "./debug-log.js";
+
+/**
+ * Sandbox settings for a STDIO server.
+ * - network: allow network access (default: false)
+ * - filesystem: "restricted" shows the server only the system directories, its cwd and the
+ *   listed paths, with a private /tmp as HOME (needs bubblewrap); "host" keeps the full
+ *   filesystem and only isolates namespaces and the network (bubblewrap or unshare)
+ */
+export interface SandboxConfig {
+  network?: boolean;
+  filesystem?: 'restricted' | 'host';
+  readOnlyPaths?: string[];
+  writablePaths?: string[];
+}
+
+export interface SandboxedCommand {
+  command: string;
+  args: string[];
+}
+
+// Mounted read-only in restricted mode; missing ones are skipped
+const SYSTEM_PATHS = ['/usr', '/bin', '/sbin', '/lib', '/lib32', '/lib64', '/etc'];
+
+/**
+ * Returns the sandbox settings for a server, or undefined if it runs unsandboxed.
+ * A server's own `sandbox` setting wins over the global --sandbox-stdio default, but only
+ * in the local --config file: configs from the plugged.in API cannot opt out of or loosen it.
+ */
+export function resolveSandboxConfig(params: ServerParameters): SandboxConfig | undefined {
+  if (isStdioSandboxEnabled() && !isLocalConfigMode()) {
+    if (params.sandbox !== undefined && params.sandbox !== true) {
+      debugLog(`[Sandbox] Ignoring the sandbox settings of ${params.name || params.uuid}; --sandbox-stdio applies to servers from the plugged.in API`);
+    }
+    return {};
+  }
+  if (params.sandbox === false) {
+    return undefined;
+  }
+  if (params.sandbox === true) {
+    return {};
+  }
+  return params.sandbox ?? (isStdioSandboxEnabled() ? {} : undefined);
+}
+
+// The installation prefix of an executable, so bin/ and the lib/ next to it are both available
+function getInstallPrefix(executable: string): string | undefined {
+  if (SYSTEM_PATHS.some((systemPath) => executable.startsWith(`${systemPath}/`))) {
+    return undefined;
+  }
+  const prefix = path.dirname(path.dirname(executable));
+  return prefix === '/' ? undefined : prefix;
+}
+
+// The interpreter named by a script's shebang line (`#!/usr/bin/env node` is looked up on PATH)
+function getInterpreter(script: string): string | undefined {
+  const head = Buffer.alloc(256);
+  let bytesRead: number;
+  try {
+    const fd = openSync(script, 'r');
+    try {
+      bytesRead = readSync(fd, head, 0, head.length, 0);
+    } finally {
+      closeSync(fd);
+    }
+  } catch {
+    return undefined;
+  }
+  const firstLine = head.toString('utf8', 0, bytesRead).split('\n')[0];
+  if (!firstLine.startsWith('#!')) {
+    return undefined;
+  }
+  const [interpreter, ...interpreterArgs] = firstLine.slice(2).trim().split(/\s+/);
+  if (path.basename(interpreter) === 'env') {
+    const name = interpreterArgs.find((arg) => !arg.startsWith('-'));
+    return name ? findExecutable(name) : undefined;
+  }
+  return interpreter || undefined;
+}
+
+// Makes a command installed outside the system directories (e.g. by nvm) visible in the sandbox.
+// The command found on PATH may link into another tree (nvm's npx is lib/node_modules/npm/bin/npx-cli.js),
+// so the prefixes of the command, of its link target and of its interpreter are all mounted
+function getCommandMounts(command: string, cwd?: string): string[] {
+  const resolved = command.includes('/') ? path.resolve(cwd ?? process.cwd(), command) : findExecutable(command);
+  if (!resolved) {
+    return [];
+  }
+  const executables = [resolved];
+  try {
+    const realPath = realpathSync(resolved);
+    executables.push(realPath);
+    const interpreter = getInterpreter(realPath);
+    if (interpreter) {
+      executables.push(interpreter);
+      try {
+        executables.push(realpathSync(interpreter));
+      } catch {}
+    }
+  } catch {
+    return [];
+  }
+  const prefixes = [...new Set(executables.map(getInstallPrefix).filter((prefix): prefix is string => !!prefix))];
+  // A prefix inside another one (npm's own package inside nvm's node) is already mounted
+  return prefixes
+    .filter((prefix) => !prefixes.some((other) => prefix.startsWith(`${other}/`)))
+    .flatMap((prefix) => ['--ro-bind', prefix, prefix]);
+}
+
+function getBubblewrapArgs(command: string, config: SandboxConfig, cwd?: string): string[] {
+  const args = ['--die-with-parent', '--unshare-all'];
+  if (config.network) {
+    args.push('--share-net');
+  }
+
+  if (config.filesystem === 'host') {
+    args.push('--bind', '/', '/', '--proc', '/proc', '--dev', '/dev');
+  } else {
+    SYSTEM_PATHS.forEach((systemPath) => args.push('--ro-bind-try', systemPath, systemPath));
+    args.push('--proc', '/proc', '--dev', '/dev', '--tmpfs', '/tmp', '--setenv', 'HOME', '/tmp');
+    args.push(...getCommandMounts(command, cwd));
+    if (cwd) {
+      args.push('--ro-bind', cwd, cwd);
+    }
+    // Listed after cwd, so a writable path can re-mount (part of) the working directory
+    config.readOnlyPaths?.forEach((readOnlyPath) => args.push('--ro-bind', readOnlyPath, readOnlyPath));
+    config.writablePaths?.forEach((writablePath) => args.push('--bind', writablePath, writablePath));
+  }
+
+  if (cwd) {
+    args.push('--chdir', cwd);
+  }
+  return args;
+}
+
+function getUnshareArgs(config: SandboxConfig): string[] {
+  const args = ['--user', '--map-root-user', '--ipc', '--uts', '--pid', '--fork', '--kill-child'];
+  if (!config.network) {
+    args.push('--net');
+  }
+  return args;
+}
+
+/**
+ * Wraps a STDIO server command so it runs inside a Linux sandbox.
+ * Returns undefined if no suitable sandbox tool is installed: restricted
+ * filesystems need bubblewrap (bwrap), host filesystems can fall back to unshare.
+ */
+export function buildSandboxCommand(
+  command: string,
+  args: string[],
+  config: SandboxConfig,
+  cwd?: string
+): SandboxedCommand | undefined {
+  if (process.platform !== 'linux') {
+    return undefined;
+  }
+
+  const bwrap = findExecutable('bwrap');
+  if (bwrap) {
+    return { command: bwrap, args: [...getBubblewrapArgs(command, config, cwd), '--', command, ...args] };
+  }
+
+  const unshare = config.filesystem === 'host' ? findExecutable('unshare') : undefined;
+  if (unshare) {
+    return { command: unshare, args: [...getUnshareArgs(config), '--', command, ...args] };
+  }
+  return undefined;
+}
@@ -52,14 +52,15 @@ export function validateToolName(name: string): string | null {
 /**
  * Validates URL with client-appropriate SSRF protection
  * @param url - The URL to validate
+ * @param allowedProtocols - Accepted URL schemes (default: http and https)
  * @returns true if valid, false otherwise
  */
-export function validateUrl(url: string): boolean {
+export function validateUrl(url: string, allowedProtocols: string[] = ['http:', 'https:']): boolean {
   try {
     const parsed = new URL(url);
     
-    // Only allow http and https protocols
-    if (!['http:', 'https:'].includes(parsed.protocol)) {
+    // Only allow the expected protocols
+    if (!allowedProtocols.includes(parsed.protocol)) {
       return false;
     }
     
@@ -0,0 +1,330 @@
+import { ConnectedClient } from "./client.js";
+import { getBackoffDelay } from "./utils.js";
+import { debugLog, debugError } from "./debug-log.js";
+
+/**
+ * Health of a downstream server as seen by the supervisor.
+ * - healthy: connected and answering pings
+ * - degraded: connected, but recent pings or transport errors failed
+ * - reconnecting: connection lost, a reconnect is scheduled
+ * - down: repeated reconnects failed; retries continue at the maximum backoff
+ * - stopped: the server's maxRestarts was reached; no more reconnects until its config changes
+ */
+export type ServerHealthState = 'healthy' | 'degraded' | 'reconnecting' | 'down' | 'stopped';
+
+export interface ServerHealth {
+  serverName: string;
+  state: ServerHealthState;
+  reconnectAttempts: number;
+  restarts: number; // Reconnect attempts since the server was attached
+  consecutivePingFailures: number;
+  lastError?: string;
+  nextRetryAt?: number;
+  lastStateChangeAt: number;
+}
+
+export interface SessionSupervisorOptions {
+  pingIntervalMs: number; // 0 disables periodic pings
+  pingTimeoutMs: number;
+  maxPingFailures: number; // Consecutive ping failures before the session is recycled
+  downAfterAttempts: number; // Failed reconnects before a server is reported as down
+  baseReconnectDelayMs: number;
+  maxReconnectDelayMs: number;
+}
+
+type Reconnect = () => Promise<ConnectedClient | undefined>;
+type Reconnected = (session: ConnectedClient) => void;
+
+interface SupervisedServer {
+  uuid: string;
+  sessionKey: string;
+  session?: ConnectedClient;
+  reconnect: Reconnect;
+  onReconnected?: Reconnected;
+  maxRestarts?: number;
+  health: ServerHealth;
+  reconnectTimer?: NodeJS.Timeout;
+}
+
+const DEFAULT_OPTIONS: SessionSupervisorOptions = {
+  pingIntervalMs: 30000,
+  pingTimeoutMs: 10000,
+  maxPingFailures: 3,
+  downAfterAttempts: 5,
+  baseReconnectDelayMs: 1000,
+  maxReconnectDelayMs: 60000,
+};
+
+/**
+ * Watches downstream sessions for transport close/error and failed pings,
+ * and reconnects them with exponential backoff and jitter.
+ */
+export class SessionSupervisor {
+  private servers = new Map<string, SupervisedServer>();
+  private options: SessionSupervisorOptions = { ...DEFAULT_OPTIONS };
+  private pingTimer?: NodeJS.Timeout;
+  private pinging = false;
+
+  configure(options: Partial<SessionSupervisorOptions>): void {
+    this.options = { ...this.options, ...options };
+    if (this.pingTimer) {
+      this.stopPinging();
+      this.startPinging();
+    }
+  }
+
+  /**
+   * Starts supervising a server. Pass the session if the initial connect
+   * succeeded, or undefined to begin reconnecting straight away.
+   * @param maxRestarts - Reconnect attempts allowed before giving up (default: unlimited)
+   * @param onReconnected - Called with each reconnected session, only while the server is still attached
+   */
+  attach(
+    uuid: string,
+    sessionKey: string,
+    serverName: string,
+    session: ConnectedClient | undefined,
+    reconnect: Reconnect,
+    maxRestarts?: number,
+    onReconnected?: Reconnected
+  ): void {
+    this.detach(uuid);
+
+    const entry: SupervisedServer = {
+      uuid,
+      sessionKey,
+      reconnect,
+      onReconnected,
+      maxRestarts,
+      health: {
+        serverName,
+        state: 'healthy',
+        reconnectAttempts: 0,
+        restarts: 0,
+        consecutivePingFailures: 0,
+        lastStateChangeAt: Date.now(),
+      },
+    };
+    this.servers.set(uuid, entry);
+
+    if (session) {
+      this.bindSession(entry, session);
+    } else {
+      this.handleConnectionLost(entry, 'Initial connection failed');
+    }
+    this.startPinging();
+  }
+
+  /**
+   * Stops supervising a server, e.g. before an intentional shutdown,
+   * so its closing transport is not mistaken for a crash.
+   */
+  detach(uuid: string): void {
+    const entry = this.servers.get(uuid);
+    if (!entry) {
+      return;
+    }
+    clearTimeout(entry.reconnectTimer);
+    this.servers.delete(uuid);
+    if (this.servers.size === 0) {
+      this.stopPinging();
+    }
+  }
+
+  detachAll(): void {
+    for (const uuid of [...this.servers.keys()]) {
+      this.detach(uuid);
+    }
+  }
+
+  /**
+   * True while a supervised session for this exact config is waiting to reconnect.
+   */
+  isRecovering(uuid: string, sessionKey: string): boolean {
+    const entry = this.servers.get(uuid);
+    return !!entry && entry.sessionKey === sessionKey && !entry.session;
+  }
+
+  getHealth(uuid: string): ServerHealth | undefined {
+    const entry = this.servers.get(uuid);
+    return entry ? { ...entry.health } : undefined;
+  }
+
+  getAllHealth(): Record<string, ServerHealth> {
+    const all: Record<string, ServerHealth> = {};
+    for (const [uuid, entry] of this.servers) {
+      all[uuid] = { ...entry.health };
+    }
+    return all;
+  }
+
+  /**
+   * Returns a user-facing reason why calls to this server cannot be routed right now,
+   * or undefined if the server is usable.
+   */
+  getUnavailableReason(uuid: string): string | undefined {
+    const entry = this.servers.get(uuid);
+    if (!entry || entry.session) {
+      return undefined;
+    }
+
+    const { serverName, state, reconnectAttempts, nextRetryAt, lastError } = entry.health;
+    const retryIn = nextRetryAt ? Math.max(0, Math.ceil((nextRetryAt - Date.now()) / 1000)) : 0;
+    const detail = lastError ? ` Last error: ${lastError}` : '';
+    if (state === 'stopped') {
+      const { restarts } = entry.health;
+      return `Server ${serverName} was stopped after ${restarts} restart${restarts !== 1 ? 's' : ''}.${detail}`;
+    }
+    if (state === 'down') {
+      return `Server ${serverName} is down after ${reconnectAttempts} reconnect attempts; next retry in ${retryIn}s.${detail}`;
+    }
+    return `Server ${serverName} is reconnecting (attempt ${reconnectAttempts + 1}, next retry in ${retryIn}s).${detail}`;
+  }
+
+  private setState(entry: SupervisedServer, state: ServerHealthState, error?: string): void {
+    if (error) {
+      entry.health.lastError = error;
+    }
+    if (entry.health.state !== state) {
+      debugLog(`[Session Supervisor] ${entry.health.serverName}: ${entry.health.state} -> ${state}`);
+      entry.health.state = state;
+      entry.health.lastStateChangeAt = Date.now();
+    }
+  }
+
+  private bindSession(entry: SupervisedServer, session: ConnectedClient): void {
+    entry.session = session;
+    entry.health.reconnectAttempts = 0;
+    entry.health.consecutivePingFailures = 0;
+    entry.health.nextRetryAt = undefined;
+    this.setState(entry, 'healthy');
+
+    session.client.onclose = () => {
+      if (this.servers.get(entry.uuid) === entry && entry.session === session) {
+        this.handleConnectionLost(entry, 'Connection closed');
+      }
+    };
+    session.client.onerror = (error) => {
+      if (this.servers.get(entry.uuid) === entry && entry.session === session) {
+        // Transport errors are not always fatal; the next ping decides
+        this.setState(entry, 'degraded', error.message);
+      }
+    };
+  }
+
+  private handleConnectionLost(entry: SupervisedServer, reason: string): void {
+    const session = entry.session;
+    entry.session = undefined;
+    if (session) {
+      session.cleanup().catch(() => {});
+    }
+    this.setState(entry, 'reconnecting', reason);
+    this.scheduleReconnect(entry);
+  }
+
+  private scheduleReconnect(entry: SupervisedServer): void {
+    if (entry.reconnectTimer) {
+      return;
+    }
+    if (entry.maxRestarts !== undefined && entry.health.restarts >= entry.maxRestarts) {
+      debugError(`[Session Supervisor] ${entry.health.serverName} reached its limit of ${entry.maxRestarts} restarts`);
+      entry.health.nextRetryAt = undefined;
+      this.setState(entry, 'stopped');
+      return;
+    }
+
+    const { baseReconnectDelayMs, maxReconnectDelayMs, downAfterAttempts } = this.options;
+    const delay = getBackoffDelay(entry.health.reconnectAttempts, baseReconnectDelayMs, maxReconnectDelayMs);
+    entry.health.nextRetryAt = Date.now() + delay;
+
+    entry.reconnectTimer = setTimeout(async () => {
+      entry.reconnectTimer = undefined;
+
+      let session: ConnectedClient | undefined;
+      let error: string | undefined;
+      entry.health.restarts++;
+      try {
+        session = await entry.reconnect();
+      } catch (reconnectError) {
+        error = reconnectError instanceof Error ? reconnectError.message : String(reconnectError);
+      }
+
+      // Server was detached (removed or reconfigured) while we were reconnecting
+      if (this.servers.get(entry.uuid) !== entry) {
+        await session?.cleanup().catch(() => {});
+        return;
+      }
+
+      if (session) {
+        debugLog(`[Session Supervisor] Reconnected to ${entry.health.serverName}`);
+        this.bindSession(entry, session);
+        entry.onReconnected?.(session);
+        return;
+      }
+
+      entry.health.reconnectAttempts++;
+      debugError(`[Session Supervisor] Reconnect to ${entry.health.serverName} failed (attempt ${entry.health.reconnectAttempts})`);
+      this.setState(
+        entry,
+        entry.health.reconnectAttempts >= downAfterAttempts ? 'down' : 'reconnecting',
+        error ?? 'Reconnect failed'
+      );
+      this.scheduleReconnect(entry);
+    }, delay);
+    entry.reconnectTimer.unref();
+  }
+
+  private startPinging(): void {
+    if (this.pingTimer || this.options.pingIntervalMs <= 0 || this.servers.size === 0) {
+      return;
+    }
+    this.pingTimer = setInterval(() => void this.pingAll(), this.options.pingIntervalMs);
+    this.pingTimer.unref();
+  }
+
+  private stopPinging(): void {
+    clearInterval(this.pingTimer);
+    this.pingTimer = undefined;
+  }
+
+  private async pingAll(): Promise<void> {
+    if (this.pinging) {
+      return;
+    }
+    this.pinging = true;
+
+    try {
+      await Promise.allSettled(
+        [...this.servers.values()].map(async (entry) => {
+          const session = entry.session;
+          if (!session) {
+            return;
+          }
+
+          try {
+            await session.client.ping({ timeout: this.options.pingTimeoutMs });
+            if (entry.session === session) {
+              entry.health.consecutivePingFailures = 0;
+              this.setState(entry, 'healthy');
+            }
+          } catch (error) {
+            if (entry.session !== session || this.servers.get(entry.uuid) !== entry) {
+              return;
+            }
+            const message = error instanceof Error ? error.message : String(error);
+            entry.health.consecutivePingFailures++;
+            if (entry.health.consecutivePingFailures >= this.options.maxPingFailures) {
+              this.handleConnectionLost(entry, `Ping failed ${entry.health.consecutivePingFailures} times: ${message}`);
+            } else {
+              this.setState(entry, 'degraded', message);
+            }
+          }
+        })
+      );
+    } finally {
+      this.pinging = false;
+    }
+  }
+}
+
+export const sessionSupervisor = new SessionSupervisor();
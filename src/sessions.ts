@@ -1,79 +1,262 @@
 import { getMcpServers } from "./fetch-pluggedinmcp.js";
-import { ServerParameters } from "./types.js"; // Corrected import path
+import { ServerConfigDiff, ServerParameters } from "./types.js"; // Corrected import path
 import {
   ConnectedClient,
-  createPluggedinMCPClient,
   connectPluggedinMCPClient,
 } from "./client.js";
-import { getSessionKey } from "./utils.js";
+import { getSessionIdleTimeoutMs, getSessionKey, isLazySessionsEnabled } from "./utils.js";
+import { ServerHealth, sessionSupervisor } from "./session-supervisor.js";
+import { debugLog } from "./debug-log.js";
 // import { container } from './di-container.js'; // Removed DI container
 // import { Logger } from './logging.js'; // Removed Logger type
 
 const _sessions: Record<string, ConnectedClient> = {};
 
+// In-flight connection attempts, so concurrent callers share one connect per session key
+const _pendingSessions: Record<string, Promise<ConnectedClient | undefined>> = {};
+
+// Usage of each session, for closing sessions that have been idle for --session-idle-timeout
+interface SessionActivity {
+  uuid: string;
+  eager: boolean; // Eager servers are kept warm and never closed for being idle
+  inFlight: number; // Requests still waiting for a downstream response
+  idleTimer?: NodeJS.Timeout;
+}
+
+const _activity: Record<string, SessionActivity> = {};
+
 // Removed logger
 
+// Restarts the idle countdown of a session, unless it is busy or exempt
+const touchSession = (sessionKey: string): void => {
+  const activity = _activity[sessionKey];
+  if (!activity) {
+    return;
+  }
+  if (activity.idleTimer) {
+    clearTimeout(activity.idleTimer);
+    activity.idleTimer = undefined;
+  }
+
+  const idleTimeoutMs = getSessionIdleTimeoutMs();
+  if (idleTimeoutMs === 0 || activity.eager || activity.inFlight > 0) {
+    return;
+  }
+  activity.idleTimer = setTimeout(() => {
+    activity.idleTimer = undefined;
+    if (activity.inFlight === 0 && _activity[sessionKey] === activity) {
+      debugLog(`[Sessions] Closing idle session for server ${activity.uuid}`);
+      // Started again by the next request that needs it
+      closeServerSessions(activity.uuid).catch(() => {});
+    }
+  }, idleTimeoutMs);
+  activity.idleTimer.unref();
+};
+
+const forgetActivity = (sessionKey: string): void => {
+  const activity = _activity[sessionKey];
+  if (activity?.idleTimer) {
+    clearTimeout(activity.idleTimer);
+  }
+  delete _activity[sessionKey];
+};
+
+// Stores a connected session under its key and mirrors it into global.sessions
+const storeSession = (sessionKey: string, session: ConnectedClient, params: ServerParameters): void => {
+  _sessions[sessionKey] = session;
+  _activity[sessionKey] ??= { uuid: params.uuid, eager: !!params.eager, inFlight: 0 };
+  touchSession(sessionKey);
+
+  // Maintain global.sessions
+  if (!(global as any).sessions) {
+    (global as any).sessions = {};
+  }
+  (global as any).sessions[sessionKey] = session;
+};
+
+// Closes every session belonging to a server UUID, whatever its config hash
+const closeServerSessions = async (uuid: string): Promise<void> => {
+  // Stop supervising first so the closing transport is not treated as a crash
+  sessionSupervisor.detach(uuid);
+
+  const server_session_keys = Object.keys(_sessions).filter((k) =>
+    k.startsWith(`${uuid}_`)
+  );
+
+  await Promise.allSettled(
+    server_session_keys.map(async (server_session_key) => {
+      const session = _sessions[server_session_key];
+      delete _sessions[server_session_key];
+      forgetActivity(server_session_key);
+      if ((global as any).sessions) {
+        delete (global as any).sessions[server_session_key];
+      }
+      await session.cleanup();
+    })
+  );
+};
+
+const createSession = async (
+  sessionKey: string,
+  uuid: string,
+  params: ServerParameters
+): Promise<ConnectedClient | undefined> => {
+  // Close existing session for this UUID if it exists with a different hash
+  await closeServerSessions(uuid);
+
+  const newClient = await connectPluggedinMCPClient(params);
+  if (newClient) {
+    storeSession(sessionKey, newClient, params);
+  }
+
+  // Hand the session to the supervisor, which reconnects it if it drops (or never came up).
+  // A reconnected session is only stored once the supervisor has checked that the server was
+  // not closed meanwhile; otherwise the supervisor cleans it up and it must not be kept here
+  sessionSupervisor.attach(
+    uuid,
+    sessionKey,
+    params.name || uuid,
+    newClient,
+    () => connectPluggedinMCPClient(params, 1),
+    params.maxRestarts,
+    (reconnected) => storeSession(sessionKey, reconnected, params)
+  );
+
+  return newClient;
+};
+
 export const getSession = async (
   sessionKey: string,
   uuid: string,
   params: ServerParameters
 ): Promise<ConnectedClient | undefined> => {
+  // The supervisor is already reconnecting this server - don't start a competing connect
+  if (sessionSupervisor.isRecovering(uuid, sessionKey)) {
+    return undefined;
+  }
+
   if (sessionKey in _sessions) {
+    touchSession(sessionKey);
     return _sessions[sessionKey];
-  } else {
-    // Close existing session for this UUID if it exists with a different hash
-    const old_session_keys = Object.keys(_sessions).filter((k) =>
-      k.startsWith(`${uuid}_`)
-    );
-
-    await Promise.allSettled(
-      old_session_keys.map(async (old_session_key) => {
-        await _sessions[old_session_key].cleanup();
-        delete _sessions[old_session_key];
-      })
-    );
+  }
 
-    const { client, transport } = createPluggedinMCPClient(params);
-    if (!client || !transport) {
-      return;
-    }
+  if (!(sessionKey in _pendingSessions)) {
+    _pendingSessions[sessionKey] = createSession(sessionKey, uuid, params).finally(() => {
+      delete _pendingSessions[sessionKey];
+    });
+  }
+  return _pendingSessions[sessionKey];
+};
 
-    const newClient = await connectPluggedinMCPClient(client, transport);
-    if (!newClient) {
-      return;
-    }
+/**
+ * Returns true if a server currently has a connected session under this key.
+ * A session the supervisor is reconnecting does not count until it is back.
+ */
+export const hasSession = (sessionKey: string): boolean => {
+  const activity = _activity[sessionKey];
+  return sessionKey in _sessions && !(activity && sessionSupervisor.isRecovering(activity.uuid, sessionKey));
+};
 
-    _sessions[sessionKey] = newClient;
-    
-    // Maintain global.sessions
-    if (!(global as any).sessions) {
-      (global as any).sessions = {};
+/**
+ * Marks a session as busy until a downstream request settles, so it is not
+ * closed for being idle while a long-running call is still in flight.
+ */
+export const trackSessionRequest = async <T>(sessionKey: string, request: Promise<T>): Promise<T> => {
+  const activity = _activity[sessionKey];
+  if (activity) {
+    activity.inFlight++;
+    touchSession(sessionKey);
+  }
+  try {
+    return await request;
+  } finally {
+    if (activity) {
+      activity.inFlight--;
+      touchSession(sessionKey);
     }
-    (global as any).sessions[sessionKey] = newClient;
-
-    return newClient;
   }
 };
 
-export const initSessions = async (): Promise<void> => {
+/**
+ * Returns the health of a supervised downstream server, if it has a session.
+ */
+export const getServerHealth = (uuid: string): ServerHealth | undefined => {
+  return sessionSupervisor.getHealth(uuid);
+};
+
+/**
+ * Returns why a server cannot take requests right now (reconnecting or down), if so.
+ */
+export const getServerUnavailableReason = (uuid: string): string | undefined => {
+  return sessionSupervisor.getUnavailableReason(uuid);
+};
+
+// Whether a server is started up front; with --lazy-sessions only eager servers are
+const shouldStartUpFront = (params: ServerParameters): boolean => {
+  return !isLazySessionsEnabled() || !!params.eager;
+};
+
+const startSessions = async (filter: (params: ServerParameters) => boolean): Promise<void> => {
   const serverParams = await getMcpServers(true);
 
   await Promise.allSettled(
-    Object.entries(serverParams).map(async ([uuid, params]) => {
-      const sessionKey = getSessionKey(uuid, params);
-      try {
-        await getSession(sessionKey, uuid, params);
-      } catch (error) {
-        // Log errors during initial session establishment attempt
-        // logger.error(`Failed to initialize session for ${params.name || uuid} during initSessions:`, error); // Removed logging
-      }
-    })
+    Object.entries(serverParams)
+      .filter(([, params]) => filter(params))
+      .map(async ([uuid, params]) => {
+        const sessionKey = getSessionKey(uuid, params);
+        try {
+          await getSession(sessionKey, uuid, params);
+        } catch (error) {
+          // Log errors during initial session establishment attempt
+          // logger.error(`Failed to initialize session for ${params.name || uuid} during initSessions:`, error); // Removed logging
+        }
+      })
+  );
+};
+
+/**
+ * Starts sessions for the configured servers, or only for the eager ones with --lazy-sessions.
+ */
+export const initSessions = async (): Promise<void> => {
+  await startSessions(shouldStartUpFront);
+};
+
+/**
+ * Starts the servers marked eager, so their first request does not wait for the process to spawn.
+ */
+export const warmUpSessions = async (): Promise<void> => {
+  await startSessions((params) => !!params.eager);
+};
+
+/**
+ * Applies a server config diff to the live sessions: removed and changed servers
+ * are stopped, added and changed servers are started (only eager ones with
+ * --lazy-sessions; the others start on first use). Untouched servers keep running.
+ */
+export const reconcileSessions = async (
+  diff: ServerConfigDiff,
+  serverParams: Record<string, ServerParameters>
+): Promise<void> => {
+  await Promise.allSettled(
+    [...diff.removed, ...diff.changed].map((uuid) => closeServerSessions(uuid))
+  );
+
+  await Promise.allSettled(
+    [...diff.added, ...diff.changed]
+      .filter((uuid) => shouldStartUpFront(serverParams[uuid]))
+      .map(async (uuid) => {
+        const params = serverParams[uuid];
+        await getSession(getSessionKey(uuid, params), uuid, params);
+      })
   );
 };
 
 export const cleanupAllSessions = async (): Promise<void> => {
+  sessionSupervisor.detachAll();
+
   await Promise.allSettled(
     Object.entries(_sessions).map(async ([sessionKey, session]) => {
+      forgetActivity(sessionKey);
       await session.cleanup();
       delete _sessions[sessionKey];
       
@@ -0,0 +1,99 @@
+import { Readable } from "stream";
+
+export interface StderrLogOptions {
+  maxLines: number; // Lines kept per server; older lines are dropped first
+  maxLineLength: number; // Longer lines are cut short
+  forward: boolean; // Also write server stderr to the proxy's own stderr
+}
+
+export interface StderrLine {
+  timestamp: number;
+  line: string;
+}
+
+const DEFAULT_OPTIONS: StderrLogOptions = {
+  maxLines: 500,
+  maxLineLength: 2000,
+  forward: true,
+};
+
+interface ServerLog {
+  lines: StderrLine[];
+  partial: string; // Text after the last newline, completed by the next chunk
+}
+
+/**
+ * Rolling per-server buffer of the stderr output of STDIO servers.
+ * The buffer survives restarts, so the output of a crashed process can still be read.
+ */
+export class StderrLog {
+  private options: StderrLogOptions = { ...DEFAULT_OPTIONS };
+  private logs = new Map<string, ServerLog>();
+
+  configure(options: Partial<StderrLogOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  /**
+   * Starts capturing a newly spawned process's stderr for a server.
+   */
+  attach(serverUuid: string, stream: Readable): void {
+    const log = this.getLog(serverUuid);
+    this.push(log, `--- process started at ${new Date().toISOString()} ---`);
+
+    stream.setEncoding("utf-8");
+    stream.on("data", (chunk: string) => {
+      if (this.options.forward) {
+        process.stderr.write(chunk);
+      }
+      const lines = (log.partial + chunk).split(/\r?\n/);
+      log.partial = lines.pop() ?? "";
+      lines.forEach((line) => this.push(log, line));
+    });
+    stream.on("end", () => {
+      if (log.partial) {
+        this.push(log, log.partial);
+        log.partial = "";
+      }
+    });
+    stream.on("error", () => {}); // The process exiting is reported by the transport
+  }
+
+  /**
+   * Returns the most recent lines of a server's stderr, oldest first.
+   */
+  getLines(serverUuid: string, limit?: number): StderrLine[] {
+    const lines = this.logs.get(serverUuid)?.lines ?? [];
+    return limit !== undefined ? lines.slice(-limit) : [...lines];
+  }
+
+  clear(serverUuid?: string): void {
+    if (serverUuid) {
+      this.logs.delete(serverUuid);
+    } else {
+      this.logs.clear();
+    }
+  }
+
+  private getLog(serverUuid: string): ServerLog {
+    let log = this.logs.get(serverUuid);
+    if (!log) {
+      log = { lines: [], partial: "" };
+      this.logs.set(serverUuid, log);
+    }
+    return log;
+  }
+
+  private push(log: ServerLog, line: string): void {
+    const { maxLines, maxLineLength } = this.options;
+    log.lines.push({
+      timestamp: Date.now(),
+      line: line.length > maxLineLength ? `${line.substring(0, maxLineLength)}...` : line,
+    });
+    if (log.lines.length > maxLines) {
+      log.lines.splice(0, log.lines.length - maxLines);
+    }
+  }
+}
+
+export const serverStderrLogs = new StderrLog();
@@ -1,16 +1,190 @@
 import express from 'express';
+import https from 'https';
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
-import { randomUUID } from 'crypto';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
 import { debugLog, debugError } from './debug-log.js';
+import { validateBearerToken } from './security-utils.js';
+import { runWithRequestContext } from './request-context.js';
+import { createEventStoreFactory, EventStoreFactory, SessionEventStore } from './event-store.js';
+import { isKnownApiKey } from './fetch-pluggedinmcp.js';
 
 // Map to store active transports by session ID (for stateful mode)
 const transports = new Map<string, StreamableHTTPServerTransport>();
 
+// Per-session servers in multi-tenant mode, with the API key each session was opened with
+const tenantSessions = new Map<string, { apiKey: string; release: () => Promise<void> }>();
+
+// Events of each session, kept so clients can resume a dropped SSE stream with Last-Event-ID
+const sessionEventStores = new Map<string, SessionEventStore>();
+
+// When each session was last used, and how many of its requests are still in flight
+const sessionActivity = new Map<string, { lastSeen: number; openRequests: number }>();
+
+const DEFAULT_SESSION_TIMEOUT_MS = 30 * 60 * 1000;
+const DEFAULT_MAX_SESSIONS = 1000;
+const DEFAULT_EVENT_STORE_SIZE = 100;
+const DEFAULT_HOST = '127.0.0.1';
+const VERIFIED_API_KEY_TTL_MS = 5 * 60 * 1000;
+
+const LOOPBACK_HOSTNAMES = ['localhost', '127.0.0.1', '[::1]', '::1'];
+
+export type ServerFactory = () => Promise<{ server: Server; cleanup: () => Promise<void> }>;
+
+export interface StreamableHTTPTLSOptions {
+  cert: string | Buffer; // PEM server certificate
+  key: string | Buffer; // PEM private key
+  // PEM CA that client certificates are verified against; setting it asks clients for a certificate
+  ca?: string | Buffer;
+  // Refuse TLS connections without a client certificate signed by the CA
+  requireClientCert?: boolean;
+  // A verified client certificate satisfies requireApiAuth instead of the bearer token
+  clientCertAuth?: boolean;
+}
+
 export interface StreamableHTTPOptions {
   port: number;
+  // Address to bind to; only this machine can connect by default
+  host?: string;
+  // Origins browsers may call from ('*' for any); by default only localhost pages
+  allowedOrigins?: string[];
+  // Accepted Host header values, with or without port; by default localhost names when bound to loopback
+  allowedHosts?: string[];
   requireApiAuth?: boolean;
   stateless?: boolean;
+  // Multi-tenant mode: every session (every request when stateless) gets its own server from
+  // the factory, and runs with the plugged.in API key from its Authorization header
+  serverFactory?: ServerFactory;
+  // Multi-tenant mode: checks that an API key belongs to a plugged.in profile (default: asks the API)
+  verifyApiKey?: (apiKey: string) => Promise<boolean>;
+  // Serve HTTPS, optionally verifying client certificates (mTLS)
+  tls?: StreamableHTTPTLSOptions;
+  // Sessions idle for longer than this are closed (0 keeps them until DELETE)
+  sessionTimeoutMs?: number;
+  // At the cap, the least recently used idle session is evicted to make room for a new one
+  maxSessions?: number;
+  // Creates the event store of each session (in-memory by default); false disables resumability
+  eventStoreFactory?: EventStoreFactory | false;
+  // Called when a session is terminated, expires or is evicted, to drop state kept for it
+  onSessionClosed?: (sessionId: string) => void;
+}
+
+function getBearerToken(req: any): string | undefined {
+  const authHeader = req.headers.authorization;
+  return authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : undefined;
+}
+
+// Constant-time comparison, so a session's API key cannot be probed byte by byte
+function isSameApiKey(a: string, b: string): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(a), digest(b));
+}
+
+// Connects a new server from the factory to a transport; release() closes it again
+async function connectTenantServer(
+  serverFactory: ServerFactory,
+  transport: StreamableHTTPServerTransport
+): Promise<() => Promise<void>> {
+  const { server, cleanup } = await serverFactory();
+  await server.connect(transport);
+  return async () => {
+    await cleanup();
+    await server.close();
+  };
+}
+
+// Closes the server of a multi-tenant session, if it has one
+async function releaseTenantSession(sessionId: string): Promise<void> {
+  const tenant = tenantSessions.get(sessionId);
+  tenantSessions.delete(sessionId);
+  await tenant?.release();
+}
+
+// Closes a session's transport and server and forgets it
+async function closeSession(sessionId: string, onSessionClosed?: (sessionId: string) => void): Promise<void> {
+  onSessionClosed?.(sessionId);
+  const transport = transports.get(sessionId);
+  transports.delete(sessionId);
+  sessionActivity.delete(sessionId);
+  sessionEventStores.get(sessionId)?.dispose();
+  sessionEventStores.delete(sessionId);
+  await transport?.close();
+  await releaseTenantSession(sessionId);
+}
+
+// Marks a request as in flight on the session until its response closes. A GET only
+// opens the SSE stream for server messages, so it counts as use but not as in flight.
+function trackSessionActivity(sessionId: string, req: any, res: any): void {
+  const activity = sessionActivity.get(sessionId) ?? { lastSeen: Date.now(), openRequests: 0 };
+  sessionActivity.set(sessionId, activity);
+  activity.lastSeen = Date.now();
+  if (req.method === 'GET') {
+    return;
+  }
+  activity.openRequests++;
+  res.on('close', () => {
+    activity.openRequests--;
+    activity.lastSeen = Date.now();
+  });
+}
+
+// The session that has gone unused the longest, not counting sessions with open requests
+function findLeastRecentlyUsedSession(): string | undefined {
+  let oldest: { sessionId: string; lastSeen: number } | undefined;
+  for (const [sessionId, activity] of sessionActivity) {
+    if (activity.openRequests === 0 && (!oldest || activity.lastSeen < oldest.lastSeen)) {
+      oldest = { sessionId, lastSeen: activity.lastSeen };
+    }
+  }
+  return oldest?.sessionId;
+}
+
+// Whether the request came over a TLS connection with a client certificate the CA verified
+function hasVerifiedClientCert(req: any): boolean {
+  return req.socket?.encrypted === true && req.socket.authorized === true;
+}
+
+function isLoopbackHostname(hostname: string): boolean {
+  return LOOPBACK_HOSTNAMES.includes(hostname.toLowerCase());
+}
+
+// The hostname of a Host header, without its port
+function getHostname(host: string): string {
+  const match = host.match(/^(\[[^\]]+\]|[^:]+)(?::\d+)?$/);
+  return match ? match[1] : host;
+}
+
+// A DNS rebinding attack points the attacker's domain at this machine, so requests arrive
+// with a foreign Host header even though they come through the loopback interface
+function isAllowedHost(host: string | undefined, allowedHosts: string[] | undefined, bindHost: string): boolean {
+  if (allowedHosts && allowedHosts.length > 0) {
+    if (!host) {
+      return false;
+    }
+    const normalized = host.toLowerCase();
+    return allowedHosts.some((allowed) => {
+      const entry = allowed.toLowerCase();
+      return entry === normalized || entry === getHostname(normalized);
+    });
+  }
+  if (!isLoopbackHostname(bindHost)) {
+    // Reachable from the network under names we cannot know - configure allowedHosts to check them
+    return true;
+  }
+  return !!host && isLoopbackHostname(getHostname(host));
+}
+
+function isAllowedOrigin(origin: string, allowedOrigins: string[] | undefined): boolean {
+  if (allowedOrigins && allowedOrigins.length > 0) {
+    return allowedOrigins.includes('*') || allowedOrigins.includes(origin);
+  }
+  try {
+    const url = new URL(origin);
+    return (url.protocol === 'http:' || url.protocol === 'https:') && isLoopbackHostname(url.hostname);
+  } catch {
+    return false;
+  }
 }
 
 /**
@@ -24,24 +198,97 @@ export async function startStreamableHTTPServer(
   options: StreamableHTTPOptions
 ): Promise<() => Promise<void>> {
   const app = express();
-  const { port, requireApiAuth, stateless } = options;
+  const { port, requireApiAuth, stateless, serverFactory, allowedOrigins, allowedHosts, tls, onSessionClosed } = options;
+  const host = options.host || DEFAULT_HOST;
+  if (tls && (tls.requireClientCert || tls.clientCertAuth) && !tls.ca) {
+    throw new Error('Client certificate verification needs a CA certificate (tls.ca)');
+  }
+  const sessionTimeoutMs = options.sessionTimeoutMs ?? DEFAULT_SESSION_TIMEOUT_MS;
+  const maxSessions = options.maxSessions ?? DEFAULT_MAX_SESSIONS;
+  const eventStoreFactory = options.eventStoreFactory ?? createEventStoreFactory({ maxEvents: DEFAULT_EVENT_STORE_SIZE });
+  const sessionStats = { created: 0, expired: 0, evicted: 0, rejected: 0 };
+  const verifyApiKey = options.verifyApiKey ?? isKnownApiKey;
+  // When each verified API key (by hash) has to be checked again, so revoked keys stop working
+  const verifiedApiKeys = new Map<string, number>();
+
+  // A well-formed key is not enough: only keys the plugged.in API knows may open sessions
+  const isVerifiedApiKey = async (apiKey: string): Promise<boolean> => {
+    const keyHash = createHash('sha256').update(apiKey).digest('hex');
+    if ((verifiedApiKeys.get(keyHash) ?? 0) > Date.now()) {
+      return true;
+    }
+    verifiedApiKeys.delete(keyHash);
+    if (!(await verifyApiKey(apiKey))) {
+      return false;
+    }
+    verifiedApiKeys.set(keyHash, Date.now() + VERIFIED_API_KEY_TTL_MS);
+    return true;
+  };
 
   // Middleware to parse JSON bodies
   app.use(express.json());
 
-  // Combined middleware for CORS and authentication
-  const setupMiddleware = (req: any, res: any, next: any) => {
+  // Combined middleware for Host/Origin validation, CORS and authentication
+  const setupMiddleware = async (req: any, res: any, next: any) => {
+    if (!isAllowedHost(req.headers.host, allowedHosts, host)) {
+      debugLog(`Rejected request with Host header: ${req.headers.host}`);
+      return res.status(403).json({
+        jsonrpc: '2.0',
+        error: {
+          code: -32000,
+          message: 'Forbidden: Host not allowed'
+        },
+        id: null
+      });
+    }
+
+    // Requests without an Origin header do not come from a browser page
+    const origin = req.headers.origin as string | undefined;
+    if (origin && !isAllowedOrigin(origin, allowedOrigins)) {
+      debugLog(`Rejected request from origin: ${origin}`);
+      return res.status(403).json({
+        jsonrpc: '2.0',
+        error: {
+          code: -32000,
+          message: 'Forbidden: Origin not allowed'
+        },
+        id: null
+      });
+    }
+
     // CORS headers
-    res.header('Access-Control-Allow-Origin', '*');
+    if (origin) {
+      res.header('Access-Control-Allow-Origin', allowedOrigins?.includes('*') ? '*' : origin);
+      res.header('Vary', 'Origin');
+    }
     res.header('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
-    res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, mcp-session-id');
+    res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, mcp-session-id, mcp-protocol-version, Last-Event-ID, X-Pluggedin-Profile');
+    res.header('Access-Control-Expose-Headers', 'mcp-session-id');
     
     if (req.method === 'OPTIONS') {
       return res.sendStatus(200);
     }
 
+    // Multi-tenant mode - every request carries the caller's own API key
+    if (req.path === '/mcp' && serverFactory) {
+      const apiKey = getBearerToken(req);
+      if (!apiKey || !validateBearerToken(apiKey) || !(await isVerifiedApiKey(apiKey))) {
+        return res.status(401).json({
+          jsonrpc: '2.0',
+          error: {
+            code: -32000,
+            message: 'Unauthorized: A valid plugged.in API key is required as bearer token'
+          },
+          id: req.body?.id || null
+        });
+      }
+      return next();
+    }
+
     // Lazy authentication - only check for tool invocations
-    if (req.path === '/mcp' && requireApiAuth && req.method === 'POST') {
+    // (a verified client certificate stands in for the API key when clientCertAuth is set)
+    const certAuthenticated = !!tls?.clientCertAuth && hasVerifiedClientCert(req);
+    if (req.path === '/mcp' && requireApiAuth && req.method === 'POST' && !certAuthenticated) {
       // Parse the request body to check if it's a tool invocation
       const body = req.body;
       if (body && typeof body === 'object') {
@@ -81,59 +328,147 @@ export async function startStreamableHTTPServer(
   // MCP endpoint handler
   app.all('/mcp', async (req: any, res: any) => {
     try {
+      if (!['GET', 'POST', 'DELETE'].includes(req.method)) {
+        return res.status(405).json({
+          jsonrpc: '2.0',
+          error: {
+            code: -32000,
+            message: `Method ${req.method} not allowed`
+          }
+        });
+      }
+
       let transport: StreamableHTTPServerTransport;
       let sessionId: string | undefined;
+      let releaseRequestServer: (() => Promise<void>) | undefined;
+      const apiKey = serverFactory ? getBearerToken(req)! : undefined;
 
       if (stateless) {
         // Create a new transport for each request in stateless mode
         transport = new StreamableHTTPServerTransport({
           sessionIdGenerator: undefined // Disable session management in stateless mode
         });
-        await server.connect(transport);
+        if (serverFactory) {
+          releaseRequestServer = await connectTenantServer(serverFactory, transport);
+        } else {
+          await server.connect(transport);
+        }
       } else {
         // Use session-based transport management
-        sessionId = req.headers['mcp-session-id'] as string || randomUUID();
-        
-        if (!transports.has(sessionId)) {
-          // Create a new transport for this session
+        const requestedSessionId = req.headers['mcp-session-id'] as string | undefined;
+
+        if (requestedSessionId && !transports.has(requestedSessionId)) {
+          // Expired, evicted or never issued - the client has to initialize a new session
+          sessionStats.rejected++;
+          return res.status(404).json({
+            jsonrpc: '2.0',
+            error: {
+              code: -32001,
+              message: 'Session not found'
+            },
+            id: req.body?.id || null
+          });
+        }
+
+        if (!requestedSessionId) {
+          // Only initialize opens a session; anything else would hold a slot the SDK then rejects
+          if (req.method !== 'POST' || !isInitializeRequest(req.body)) {
+            return res.status(400).json({
+              jsonrpc: '2.0',
+              error: {
+                code: -32000,
+                message: 'Bad Request: No valid session ID provided; send initialize to start a session'
+              },
+              id: req.body?.id || null
+            });
+          }
+
+          if (transports.size >= maxSessions) {
+            const evictedSessionId = findLeastRecentlyUsedSession();
+            if (!evictedSessionId) {
+              return res.status(503).json({
+                jsonrpc: '2.0',
+                error: {
+                  code: -32000,
+                  message: `Too many sessions: all ${maxSessions} sessions are in use`
+                },
+                id: req.body?.id || null
+              });
+            }
+            debugLog(`Evicting least recently used session: ${evictedSessionId}`);
+            sessionStats.evicted++;
+            await closeSession(evictedSessionId, onSessionClosed);
+          }
+
+          // Create a new transport for a new session; its ID is always generated here
+          const newSessionId = randomUUID();
+          sessionId = newSessionId;
+          const eventStore = eventStoreFactory ? eventStoreFactory(newSessionId) : undefined;
+          if (eventStore) {
+            sessionEventStores.set(newSessionId, eventStore);
+          }
           transport = new StreamableHTTPServerTransport({
-            sessionIdGenerator: () => sessionId!,
+            sessionIdGenerator: () => newSessionId,
+            eventStore,
             onsessioninitialized: (id) => {
               debugLog(`Session initialized: ${id}`);
             }
           });
           transports.set(sessionId, transport);
-          await server.connect(transport);
+          sessionActivity.set(sessionId, { lastSeen: Date.now(), openRequests: 0 });
+          sessionStats.created++;
+          if (serverFactory) {
+            // The session's own server, tool map and downstream view, scoped to its API key
+            tenantSessions.set(sessionId, { apiKey: apiKey!, release: await connectTenantServer(serverFactory, transport) });
+          } else {
+            await server.connect(transport);
+          }
           
           // Set session ID in response header
           res.setHeader('mcp-session-id', sessionId);
         } else {
+          sessionId = requestedSessionId;
           transport = transports.get(sessionId)!;
+
+          // A session can only be used with the API key that opened it
+          const tenant = tenantSessions.get(sessionId);
+          if (serverFactory && (!tenant || !isSameApiKey(tenant.apiKey, apiKey!))) {
+            return res.status(403).json({
+              jsonrpc: '2.0',
+              error: {
+                code: -32000,
+                message: 'Forbidden: Session belongs to a different API key'
+              },
+              id: req.body?.id || null
+            });
+          }
         }
+
+        trackSessionActivity(sessionId, req, res);
       }
 
+      // Handlers run with the session's API key in multi-tenant mode
+      const handleRequest = (parsedBody?: unknown) => serverFactory
+        ? runWithRequestContext({ apiKey }, () => transport.handleRequest(req, res, parsedBody))
+        : transport.handleRequest(req, res, parsedBody);
+
       // Handle different HTTP methods
       switch (req.method) {
         case 'POST':
-          // Handle MCP message
-          await transport.handleRequest(req, res);
+          // Handle MCP message (the body was already parsed by express.json)
+          await handleRequest(req.body);
           break;
           
         case 'GET':
           // Handle SSE stream if supported
-          await transport.handleRequest(req, res);
+          await handleRequest();
           break;
           
         case 'DELETE':
           // Handle session termination
           if (!stateless && sessionId && transports.has(sessionId)) {
-            const transport = transports.get(sessionId)!;
-            await transport.close();
-            transports.delete(sessionId);
+            await closeSession(sessionId, onSessionClosed);
             res.status(200).json({ success: true, message: 'Session terminated' });
-          } else if (!stateless && sessionId && !transports.has(sessionId)) {
-            // Session ID provided but doesn't exist - return success as nothing to delete
-            res.status(200).json({ success: true, message: 'Session not found' });
           } else if (stateless) {
             // In stateless mode, always return success
             res.status(200).json({ success: true, message: 'Stateless mode - no session to terminate' });
@@ -147,20 +482,12 @@ export async function startStreamableHTTPServer(
             });
           }
           break;
-          
-        default:
-          res.status(405).json({
-            jsonrpc: '2.0',
-            error: {
-              code: -32000,
-              message: `Method ${req.method} not allowed`
-            }
-          });
       }
       
       // Clean up transport in stateless mode
       if (stateless && req.method !== 'GET') {
         await transport.close();
+        await releaseRequestServer?.();
       }
     } catch (error) {
       debugError('Error handling request:', error);
@@ -175,18 +502,43 @@ export async function startStreamableHTTPServer(
     }
   });
 
+  // Close sessions that have been idle for longer than the session timeout
+  const sweepTimer = !stateless && sessionTimeoutMs > 0
+    ? setInterval(async () => {
+        const now = Date.now();
+        for (const [sessionId, activity] of sessionActivity) {
+          if (activity.openRequests === 0 && now - activity.lastSeen > sessionTimeoutMs) {
+            debugLog(`Session expired after ${sessionTimeoutMs}ms idle: ${sessionId}`);
+            sessionStats.expired++;
+            await closeSession(sessionId, onSessionClosed).catch((error) => {
+              debugError(`Error closing expired session ${sessionId}:`, error);
+            });
+          }
+        }
+      }, Math.min(sessionTimeoutMs, 60 * 1000))
+    : undefined;
+  sweepTimer?.unref();
+
   // Health check endpoint
   app.get('/health', (_req: any, res: any) => {
     res.json({ 
       status: 'ok', 
       transport: 'streamable-http',
-      sessions: stateless ? 0 : transports.size 
+      sessions: stateless ? 0 : transports.size,
+      ...(stateless ? {} : {
+        sessionStats: {
+          active: transports.size,
+          maxSessions,
+          sessionTimeoutMs,
+          ...sessionStats
+        }
+      })
     });
   });
 
-  // Start the Express server
-  const httpServer = app.listen(port, () => {
-    debugLog(`Streamable HTTP server listening on port ${port}`);
+  // Start the Express server, over HTTPS when TLS is configured
+  const onListening = () => {
+    debugLog(`Streamable HTTP server listening on ${tls ? 'https' : 'http'}://${host}:${port}`);
     if (stateless) {
       debugLog('Running in stateless mode');
     } else {
@@ -195,19 +547,37 @@ export async function startStreamableHTTPServer(
     if (requireApiAuth) {
       debugLog('API authentication required');
     }
-  });
+    if (tls?.ca) {
+      debugLog(`Client certificates ${tls.requireClientCert ? 'required' : 'requested'}`);
+    }
+  };
+  const httpServer = tls
+    ? https.createServer({
+        cert: tls.cert,
+        key: tls.key,
+        ca: tls.ca,
+        requestCert: !!tls.ca,
+        rejectUnauthorized: !!tls.ca && !!tls.requireClientCert
+      }, app).listen(port, host, onListening)
+    : app.listen(port, host, onListening);
 
   // Return cleanup function
   return async () => {
+    if (sweepTimer) {
+      clearInterval(sweepTimer);
+    }
+
     // Close all active transports
-    for (const [sessionId, transport] of transports) {
+    for (const sessionId of [...transports.keys()]) {
       try {
-        await transport.close();
+        await closeSession(sessionId, onSessionClosed);
       } catch (error) {
         debugError(`Error closing transport for session ${sessionId}:`, error);
       }
     }
     transports.clear();
+    sessionActivity.clear();
+    sessionEventStores.clear();
 
     // Close the HTTP server
     return new Promise((resolve) => {
@@ -0,0 +1,106 @@
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { ServerParameters } from "./types.js";
+import { ToolNamespaceMode, sanitizeName } from "./utils.js";
+
+/**
+ * Routing entry for a tool exposed to clients, keyed by its exposed name.
+ */
+export interface ToolRoute {
+  originalName: string; // Name the downstream server knows the tool by
+  serverUuid: string;
+  serverName?: string;
+  // From the downstream tool's annotations
+  destructiveHint?: boolean;
+  readOnlyHint?: boolean;
+  idempotentHint?: boolean;
+}
+
+/**
+ * An exposed tool name claimed by more than one downstream tool.
+ * The first server listed keeps the name; the others are left out of the tool list.
+ */
+export interface ToolCollision {
+  name: string;
+  servers: string[]; // Server names (or UUIDs), winner first
+}
+
+export interface NamespacedTools<T extends Tool> {
+  tools: T[]; // Tools renamed to their exposed names, colliding duplicates removed
+  toolMap: Record<string, ToolRoute>;
+  collisions: ToolCollision[];
+}
+
+/**
+ * Prefix used for a server's tools: its configured toolPrefix alias, else its sanitized name.
+ */
+export function getToolPrefix(serverUuid: string, serverName?: string, params?: ServerParameters): string {
+  return sanitizeName(params?.toolPrefix || serverName || serverUuid);
+}
+
+/**
+ * Assigns client-facing names to downstream tools and builds the reverse mapping used to
+ * route calls back to the originating server under the tool's original name.
+ * @param tools - Downstream tools with server attribution, in listing order
+ * @param serverParams - Server configs keyed by UUID, used for toolPrefix aliases
+ * @param mode - Which tools get a server prefix
+ * @param separator - Placed between the prefix and the original tool name
+ */
+export function namespaceTools<T extends Tool & { _serverUuid: string; _serverName?: string }>(
+  tools: T[],
+  serverParams: Record<string, ServerParameters>,
+  mode: ToolNamespaceMode,
+  separator: string
+): NamespacedTools<T> {
+  // Count how many distinct servers expose each bare name
+  const serversByName = new Map<string, Set<string>>();
+  for (const tool of tools) {
+    const servers = serversByName.get(tool.name) ?? new Set<string>();
+    servers.add(tool._serverUuid);
+    serversByName.set(tool.name, servers);
+  }
+
+  const result: NamespacedTools<T> = { tools: [], toolMap: {}, collisions: [] };
+  const claimedBy = new Map<string, string>(); // Exposed name -> server that owns it
+  const collisions = new Map<string, ToolCollision>();
+
+  for (const tool of tools) {
+    const { _serverUuid, _serverName } = tool;
+    const params = serverParams[_serverUuid];
+    const serverLabel = _serverName || params?.name || _serverUuid;
+    const prefixed = mode === 'always' || (mode === 'on-collision' && serversByName.get(tool.name)!.size > 1);
+    const exposedName = prefixed
+      ? `${getToolPrefix(_serverUuid, _serverName ?? params?.name, params)}${separator}${tool.name}`
+      : tool.name;
+
+    const owner = claimedBy.get(exposedName);
+    if (owner !== undefined) {
+      const collision = collisions.get(exposedName) ?? { name: exposedName, servers: [owner] };
+      collision.servers.push(serverLabel);
+      collisions.set(exposedName, collision);
+      continue;
+    }
+
+    claimedBy.set(exposedName, serverLabel);
+    result.toolMap[exposedName] = {
+      originalName: tool.name,
+      serverUuid: _serverUuid,
+      serverName: serverLabel,
+      ...(tool.annotations?.destructiveHint !== undefined && { destructiveHint: tool.annotations.destructiveHint }),
+      ...(tool.annotations?.readOnlyHint !== undefined && { readOnlyHint: tool.annotations.readOnlyHint }),
+      ...(tool.annotations?.idempotentHint !== undefined && { idempotentHint: tool.annotations.idempotentHint }),
+    };
+    result.tools.push({ ...tool, name: exposedName });
+  }
+
+  result.collisions = [...collisions.values()];
+  return result;
+}
+
+/**
+ * Formats collisions for logs and discovery output.
+ */
+export function describeToolCollisions(collisions: ToolCollision[]): string[] {
+  return collisions.map(({ name, servers }) =>
+    `"${name}" is exposed by ${servers.join(", ")}; using ${servers[0]}`
+  );
+}
@@ -0,0 +1,175 @@
+import { z } from "zod";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+import { readConfigFile } from "./local-config.js";
+
+// Server name used in policy rules for the proxy's own static tools (pluggedin_*)
+export const STATIC_TOOLS_SERVER_NAME = "pluggedin";
+
+// Header clients can send to select a named policy profile
+export const PROFILE_HEADER = "x-pluggedin-profile";
+
+/**
+ * A rule is either a glob over the tool name, or an object with globs over the
+ * server name and/or the tool name. Tool globs match the exposed (namespaced)
+ * name or the original downstream name. Supported wildcards: * and ?.
+ */
+const ToolRuleSchema = z.union([
+  z.string().min(1),
+  z.object({
+    server: z.string().min(1).optional(),
+    tool: z.string().min(1).optional(),
+  }).refine((rule) => rule.server || rule.tool, "A rule needs a server or tool pattern"),
+]);
+
+const ToolAccessSchema = z.object({
+  allow: z.array(ToolRuleSchema).optional(), // Omitted = everything not denied is allowed
+  deny: z.array(ToolRuleSchema).optional(), // Deny always wins over allow
+  requireApproval: z.array(ToolRuleSchema).optional(), // Permitted tools that need user approval per call
+});
+
+const ToolPolicySchema = ToolAccessSchema.extend({
+  name: z.string().min(1),
+  match: z.object({
+    apiKey: z.string().min(1).optional(), // Bearer token sent by the client
+    sessionId: z.string().min(1).optional(), // Streamable HTTP mcp-session-id
+    profile: z.string().min(1).optional(), // X-Pluggedin-Profile header
+  }).refine((match) => match.apiKey || match.sessionId || match.profile, "A policy must match on apiKey, sessionId or profile"),
+});
+
+export const ToolPolicyConfigSchema = z.object({
+  default: ToolAccessSchema.optional(), // Applies to connections no policy matches, including STDIO
+  policies: z.array(ToolPolicySchema).default([]),
+});
+
+export type ToolRule = z.infer<typeof ToolRuleSchema>;
+export type ToolAccess = z.infer<typeof ToolAccessSchema>;
+export type ToolPolicyConfig = z.infer<typeof ToolPolicyConfigSchema>;
+
+/**
+ * What identifies an upstream connection for policy matching.
+ */
+export interface ConnectionIdentity {
+  apiKey?: string;
+  sessionId?: string;
+  profile?: string;
+}
+
+/**
+ * The tool being listed or called, with the server that provides it.
+ */
+export interface ToolIdentity {
+  serverName: string;
+  toolName: string; // Name exposed to the client
+  originalName?: string; // Name on the downstream server, if different
+}
+
+const globCache = new Map<string, RegExp>();
+
+function globToRegExp(glob: string): RegExp {
+  let regex = globCache.get(glob);
+  if (!regex) {
+    const pattern = glob
+      .split("")
+      .map((char) => (char === "*" ? ".*" : char === "?" ? "." : char.replace(/[.+^${}()|[\]\\]/g, "\\$&")))
+      .join("");
+    regex = new RegExp(`^${pattern}$`, "i");
+    globCache.set(glob, regex);
+  }
+  return regex;
+}
+
+function ruleMatches(rule: ToolRule, tool: ToolIdentity): boolean {
+  const { server, tool: toolGlob } = typeof rule === "string" ? { server: undefined, tool: rule } : rule;
+  if (server && !globToRegExp(server).test(tool.serverName)) {
+    return false;
+  }
+  if (toolGlob) {
+    const regex = globToRegExp(toolGlob);
+    return regex.test(tool.toolName) || (!!tool.originalName && regex.test(tool.originalName));
+  }
+  return true;
+}
+
+/**
+ * Checks a tool against an access rule set. A tool is permitted if it matches
+ * an allow rule (or there is no allow list) and matches no deny rule.
+ */
+export function isToolPermitted(access: ToolAccess | undefined, tool: ToolIdentity): boolean {
+  if (!access) {
+    return true;
+  }
+  if (access.deny?.some((rule) => ruleMatches(rule, tool))) {
+    return false;
+  }
+  return !access.allow || access.allow.some((rule) => ruleMatches(rule, tool));
+}
+
+/**
+ * Checks whether a tool matches one of the access rules' requireApproval rules.
+ */
+export function isApprovalRequired(access: ToolAccess | undefined, tool: ToolIdentity): boolean {
+  return !!access?.requireApproval?.some((rule) => ruleMatches(rule, tool));
+}
+
+/**
+ * Extracts the connection identity from a request handler's extra data.
+ * Headers are only present for Streamable HTTP requests; STDIO connections have no identity.
+ */
+export function getConnectionIdentity(
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+): ConnectionIdentity {
+  const headers = extra.requestInfo?.headers ?? {};
+  const header = (name: string) => {
+    const value = headers[name];
+    return Array.isArray(value) ? value[0] : value;
+  };
+  const authorization = header("authorization");
+
+  return {
+    apiKey: extra.authInfo?.token ?? (authorization?.startsWith("Bearer ") ? authorization.slice(7) : undefined),
+    sessionId: extra.sessionId,
+    profile: header(PROFILE_HEADER),
+  };
+}
+
+/**
+ * Holds the configured tool policies and resolves which one applies to a connection.
+ */
+export class ToolPolicyRegistry {
+  private config: ToolPolicyConfig = { policies: [] };
+
+  configure(config: ToolPolicyConfig): void {
+    this.config = config;
+  }
+
+  /**
+   * Loads policies from a JSON/YAML file.
+   * @throws Error if the file cannot be read or fails validation
+   */
+  loadFromFile(filePath: string): void {
+    const result = ToolPolicyConfigSchema.safeParse(readConfigFile(filePath));
+    if (!result.success) {
+      const issues = result.error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      throw new Error(`Invalid tool policy file ${filePath}: ${issues}`);
+    }
+    this.configure(result.data);
+  }
+
+  /**
+   * Returns the first policy whose match criteria all hold for the connection,
+   * falling back to the default rules.
+   */
+  resolve(connection: ConnectionIdentity): ToolAccess | undefined {
+    const policy = this.config.policies.find(({ match }) =>
+      (!match.apiKey || match.apiKey === connection.apiKey) &&
+      (!match.sessionId || match.sessionId === connection.sessionId) &&
+      (!match.profile || match.profile === connection.profile)
+    );
+    return policy ?? this.config.default;
+  }
+}
+
+export const toolPolicies = new ToolPolicyRegistry();
@@ -13,20 +13,70 @@ export interface ServerParameters {
   args?: string[] | null; // Keep null possibility
   env?: Record<string, string> | null; // Keep null possibility
   url?: string | null; // For SSE servers, keep null possibility
-  type: 'STDIO' | 'SSE' | 'STREAMABLE_HTTP'; // Type of server connection
+  type: 'STDIO' | 'SSE' | 'STREAMABLE_HTTP' | 'AUTO' | 'WEBSOCKET'; // Type of server connection; AUTO tries Streamable HTTP, then SSE
   created_at?: string; // Added (optional based on original)
   profile_uuid?: string; // Added (optional based on original)
   status?: string; // Added (optional based on original)
-  // Streamable HTTP specific fields
+  // Remote server fields (sessionId is Streamable HTTP only)
   oauthToken?: string; // OAuth token for authentication
   headers?: Record<string, string>; // Custom headers for requests
   sessionId?: string; // Session ID for stateful connections
+  subprotocols?: string[]; // WebSocket subprotocols to offer (default: mcp)
   oauth?: {
-    clientId?: string;
-    authorizationUrl?: string;
-    tokenUrl?: string;
+    clientId?: string; // Pre-registered client; omitted = dynamic client registration
+    clientSecret?: string; // For confidential pre-registered clients
+    authorizationUrl?: string; // Unused: endpoints are discovered from the server's OAuth metadata
+    tokenUrl?: string; // Unused: endpoints are discovered from the server's OAuth metadata
     scopes?: string[];
-  }; // OAuth configuration for authorization code flow
+  }; // OAuth configuration for authorization code flow (see oauth-provider.ts)
+  // STDIO specific fields
+  envPassthrough?: string[]; // Extra host variables (glob patterns) passed to the process, see getDefaultEnvironment
+  cwd?: string | null; // Working directory of the server process (default: the proxy's)
+  resourceLimits?: {
+    memoryMb?: number; // Data segment limit (heap), enforced with prlimit on Linux
+    cpuSeconds?: number; // CPU time after which the process is killed
+  };
+  eager?: boolean; // Started with the proxy and never closed for being idle (see --lazy-sessions)
+  tools?: Tool[]; // Declared tools, listed with --lazy-sessions before the server has ever been started
+  maxRestarts?: number; // Reconnects allowed before the supervisor gives up on the server (default: unlimited)
+  sandbox?: boolean | { // Run the server in a Linux sandbox (see sandbox.ts); false opts out of --sandbox-stdio
+    network?: boolean;
+    filesystem?: 'restricted' | 'host';
+    readOnlyPaths?: string[];
+    writablePaths?: string[];
+  };
+  toolPrefix?: string; // Alias used instead of the server name when namespacing tool names
+  // Downstream tools/call timeouts in milliseconds
+  toolTimeoutMs?: number; // Default for every tool on this server
+  toolTimeouts?: Record<string, number>; // Overrides by original tool name
+  // Per-server tool result cache settings (see result-cache.ts for defaults)
+  toolCache?: {
+    enabled?: boolean; // Cache this server's readOnly/idempotent tools even without --tool-cache
+    ttlMs?: number;
+    maxEntries?: number;
+    maxEntryBytes?: number;
+    tools?: Record<string, { // Overrides by original tool name; enabled forces caching on or off
+      enabled?: boolean;
+      ttlMs?: number;
+      maxEntries?: number;
+      maxEntryBytes?: number;
+    }>;
+  };
+  // Per-server concurrency limit overrides (see concurrency-limiter.ts for defaults)
+  concurrency?: {
+    maxConcurrent?: number;
+    maxQueueLength?: number;
+    queueTimeoutMs?: number;
+  };
+  // Per-server circuit breaker overrides (see circuit-breaker.ts for defaults)
+  circuitBreaker?: {
+    windowSize?: number;
+    minimumCalls?: number;
+    errorRateThreshold?: number;
+    slowCallThresholdMs?: number;
+    openDurationMs?: number;
+    halfOpenMaxCalls?: number;
+  };
   // Add other relevant fields fetched from the API if needed
 }
 
@@ -111,11 +161,22 @@ export interface PluggedinMCPResourceReport extends ResourceInfo {
 }
 
 /**
- * Structure for caching tool names (stringified JSON list) with expiration.
+ * Structure for caching a serialized value with expiration.
+ * Used by the tool result cache (see result-cache.ts), where the value is a JSON tool result.
  */
 export interface ToolsCacheEntry {
   value: string;
   expiresAt: number;
 }
 
+/**
+ * Difference between two server configuration snapshots, by server UUID.
+ * A server is "changed" when its parameters produce a different session key.
+ */
+export interface ServerConfigDiff {
+  added: string[];
+  removed: string[];
+  changed: string[];
+}
+
 // Add other shared types as needed throughout the project.
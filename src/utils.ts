@@ -1,7 +1,12 @@
 import crypto from "crypto";
+import os from "os";
+import path from "path";
+import { accessSync, constants } from "fs";
 import { ServerParameters } from "./types.js"; // Corrected import path
 import { validateBearerToken, validateApiUrl, validateEnvVarName } from "./security-utils.js";
 import { debugError } from "./debug-log.js";
+import { getRequestContext } from "./request-context.js";
+import { DEFAULT_REQUEST_TIMEOUT_MSEC } from "@modelcontextprotocol/sdk/shared/protocol.js";
 
 export const getSessionKey = (uuid: string, params: ServerParameters): string => {
   const hash = crypto.createHash("sha256");
@@ -9,14 +14,21 @@ export const getSessionKey = (uuid: string, params: ServerParameters): string =>
   return `${uuid}_${hash.digest("hex")}`;
 };
 
+// Exponential backoff with jitter: half the delay is fixed, half is random, capped at maxMs
+export const getBackoffDelay = (attempt: number, baseMs: number, maxMs: number): number => {
+  const exponential = Math.min(maxMs, baseMs * 2 ** attempt);
+  return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+};
+
 export const sanitizeName = (name: string): string => {
   return name.replace(/[^a-zA-Z0-9_]/g, "_").toLowerCase();
 };
 
-// Helper function to get the API key, prioritizing argument over environment variable
+// Helper function to get the API key, prioritizing argument, then the current tenant request, then environment variable
 export const getPluggedinMCPApiKey = (apiKey?: string): string | undefined => {
-  // Prioritize argument, then environment variable
-  const key = apiKey ?? process.env.PLUGGEDIN_API_KEY;
+  // A tenant request never falls back to the proxy's own key
+  const context = getRequestContext();
+  const key = apiKey ?? (context ? context.apiKey : process.env.PLUGGEDIN_API_KEY);
   
   // Validate token format if present
   if (key && !validateBearerToken(key)) {
@@ -45,20 +57,179 @@ export const getPluggedinMCPApiBaseUrl = (baseUrl?: string): string | undefined
   return url;
 };
 
+// Helper function to get the local server config file path (set via --config or PLUGGEDIN_CONFIG_FILE)
+export const getLocalConfigPath = (): string | undefined => {
+  const configPath = process.env.PLUGGEDIN_CONFIG_FILE;
+  return configPath && configPath.trim().length > 0 ? configPath : undefined;
+};
+
+// Helper function to get the local secrets file used by ${secret:...} env references
+// (set via --secrets-file or PLUGGEDIN_SECRETS_FILE, default ~/.pluggedin-mcp/secrets.json)
+export const getSecretsFilePath = (): string => {
+  const secretsPath = process.env.PLUGGEDIN_SECRETS_FILE;
+  return secretsPath && secretsPath.trim().length > 0
+    ? secretsPath
+    : path.join(os.homedir(), '.pluggedin-mcp', 'secrets.json');
+};
+
+// Helper function to check if servers come from a local config file instead of the API
+export const isLocalConfigMode = (): boolean => {
+  return getLocalConfigPath() !== undefined;
+};
+
+// Helper function to resolve the downstream tools/call timeout.
+// Priority: per-tool override, per-server default, PLUGGEDIN_TOOL_TIMEOUT_MS, SDK default (60s)
+export const getToolTimeoutMs = (params: ServerParameters, toolName: string): number => {
+  const perTool = params.toolTimeouts?.[toolName];
+  if (perTool && perTool > 0) {
+    return perTool;
+  }
+  if (params.toolTimeoutMs && params.toolTimeoutMs > 0) {
+    return params.toolTimeoutMs;
+  }
+  const globalTimeout = parseInt(process.env.PLUGGEDIN_TOOL_TIMEOUT_MS || '', 10);
+  return globalTimeout > 0 ? globalTimeout : DEFAULT_REQUEST_TIMEOUT_MSEC;
+};
+
+// How downstream tool names are exposed to clients (set via --tool-namespace or PLUGGEDIN_TOOL_NAMESPACE)
+// off: bare names; always: every tool is prefixed with its server; on-collision: only duplicated names are prefixed
+export type ToolNamespaceMode = 'off' | 'always' | 'on-collision';
+
+export const getToolNamespaceMode = (): ToolNamespaceMode => {
+  const mode = process.env.PLUGGEDIN_TOOL_NAMESPACE?.trim().toLowerCase();
+  return mode === 'always' || mode === 'on-collision' ? mode : 'off';
+};
+
+// Separator between the server prefix and the tool name, e.g. github__create_issue
+export const getToolNamespaceSeparator = (): string => {
+  return process.env.PLUGGEDIN_TOOL_NAMESPACE_SEPARATOR || '__';
+};
+
+// Serializes a JSON value with object keys sorted, so equal arguments always produce the same string
+export const canonicalizeJson = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalizeJson(item === undefined ? null : item)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalizeJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
+
+// Helper function to check if tools annotated with destructiveHint need user approval
+// (set via --approve-destructive-tools or PLUGGEDIN_APPROVE_DESTRUCTIVE_TOOLS)
+export const isDestructiveApprovalEnabled = (): boolean => {
+  return process.env.PLUGGEDIN_APPROVE_DESTRUCTIVE_TOOLS === 'true';
+};
+
+// Helper function to check if STDIO servers run sandboxed unless they opt out
+// (set via --sandbox-stdio or PLUGGEDIN_SANDBOX_STDIO)
+export const isStdioSandboxEnabled = (): boolean => {
+  return process.env.PLUGGEDIN_SANDBOX_STDIO === 'true';
+};
+
+// Helper function to check if downstream sessions only start on first use, apart from eager servers
+// (set via --lazy-sessions or PLUGGEDIN_LAZY_SESSIONS)
+export const isLazySessionsEnabled = (): boolean => {
+  return process.env.PLUGGEDIN_LAZY_SESSIONS === 'true';
+};
+
+// Helper function to get the directory where tool listings of lazily started servers are kept
+// (set via --manifest-dir or PLUGGEDIN_MANIFEST_DIR, default ~/.pluggedin-mcp/manifests)
+export const getManifestDir = (): string => {
+  const manifestDir = process.env.PLUGGEDIN_MANIFEST_DIR;
+  return manifestDir && manifestDir.trim().length > 0
+    ? manifestDir
+    : path.join(os.homedir(), '.pluggedin-mcp', 'manifests');
+};
+
+// Helper function to check if server configs are supplied by tenants rather than the operator:
+// in multi-tenant mode they come from each caller's own API key (--config is refused there)
+// (set via --multi-tenant or PLUGGEDIN_MULTI_TENANT)
+export const isTenantSuppliedConfig = (): boolean => {
+  return process.env.PLUGGEDIN_MULTI_TENANT === 'true' && !getLocalConfigPath();
+};
+
+// Helper function to get how long an unused downstream session stays open; 0 keeps sessions open
+// (set via --session-idle-timeout or PLUGGEDIN_SESSION_IDLE_TIMEOUT_MS)
+export const getSessionIdleTimeoutMs = (): number => {
+  const timeoutMs = parseInt(process.env.PLUGGEDIN_SESSION_IDLE_TIMEOUT_MS || '', 10);
+  return timeoutMs > 0 ? timeoutMs : 0;
+};
+
+// Helper function to find an executable on PATH (e.g. prlimit), undefined if it is not installed
+export const findExecutable = (name: string): string | undefined => {
+  for (const dir of (process.env.PATH || '').split(path.delimiter)) {
+    if (!dir) {
+      continue;
+    }
+    const candidate = path.join(dir, name);
+    try {
+      accessSync(candidate, constants.X_OK);
+      return candidate;
+    } catch {}
+  }
+  return undefined;
+};
+
 // Helper function to check if debug logging is enabled
 export const isDebugEnabled = (): boolean => {
   return process.env.DEBUG === "true";
 };
 
-// Helper function to get default environment variables
-export const getDefaultEnvironment = (): Record<string, string> => {
+// Host variables passed to every STDIO server, in addition to --env-passthrough patterns
+const DEFAULT_ENV_PASSTHROUGH = ['PATH', 'HOME', 'USER', 'LANG', 'LC_ALL'];
+// Host variables never passed to STDIO servers, in addition to --env-deny patterns
+const DEFAULT_ENV_DENYLIST = ['PLUGGEDIN_API_KEY', 'PLUGGEDIN_OAUTH_ENCRYPTION_KEY'];
+
+const parsePatternList = (value?: string): string[] => {
+  return (value || '').split(',').map((pattern) => pattern.trim()).filter((pattern) => pattern.length > 0);
+};
+
+// Helper function to check a variable name against glob patterns (`*` and `?` wildcards)
+export const matchesEnvPattern = (name: string, patterns: string[]): boolean => {
+  return patterns.some((pattern) => {
+    const regex = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+    return new RegExp(`^${regex}$`).test(name);
+  });
+};
+
+// Helper function to get the host variables passed through to STDIO servers
+// (extended via --env-passthrough or PLUGGEDIN_ENV_PASSTHROUGH)
+export const getEnvPassthroughPatterns = (): string[] => {
+  return [...DEFAULT_ENV_PASSTHROUGH, ...parsePatternList(process.env.PLUGGEDIN_ENV_PASSTHROUGH)];
+};
+
+// Helper function to get the host variables that never reach STDIO servers
+// (extended via --env-deny or PLUGGEDIN_ENV_DENY)
+export const getEnvDenyPatterns = (): string[] => {
+  return [...DEFAULT_ENV_DENYLIST, ...parsePatternList(process.env.PLUGGEDIN_ENV_DENY)];
+};
+
+// Helper function to check if a host variable must not be passed to STDIO servers
+export const isEnvVarDenied = (name: string): boolean => {
+  return matchesEnvPattern(name, getEnvDenyPatterns());
+};
+
+// Helper function to get the host environment variables passed to a STDIO server.
+// serverPatterns are the server's own envPassthrough patterns; the denylist always wins.
+export const getDefaultEnvironment = (serverPatterns: string[] = []): Record<string, string> => {
   const defaultEnv: Record<string, string> = {};
-  const allowedEnvVars = ['PATH', 'HOME', 'USER', 'LANG', 'LC_ALL'];
-  
-  for (const varName of allowedEnvVars) {
-    if (process.env[varName] && validateEnvVarName(varName)) {
+  const patterns = [...getEnvPassthroughPatterns(), ...serverPatterns];
+
+  for (const [varName, value] of Object.entries(process.env)) {
+    if (
+      value !== undefined &&
+      validateEnvVarName(varName) &&
+      matchesEnvPattern(varName, patterns) &&
+      !isEnvVarDenied(varName)
+    ) {
       // Sanitize the value to prevent injection
-      defaultEnv[varName] = String(process.env[varName]).replace(/[\0\r\n]/g, '');
+      defaultEnv[varName] = String(value).replace(/[\0\r\n]/g, '');
     }
   }
 
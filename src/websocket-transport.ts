@@ -0,0 +1,84 @@
+import WebSocket from "ws";
+import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { JSONRPCMessage, JSONRPCMessageSchema } from "@modelcontextprotocol/sdk/types.js";
+
+// Subprotocol MCP servers expect when none is configured (same as the SDK's WebSocket transport)
+const DEFAULT_SUBPROTOCOLS = ["mcp"];
+
+export interface WebSocketClientTransportOptions {
+  headers?: Record<string, string>; // Sent with the upgrade request
+  subprotocols?: string[]; // Offered in Sec-WebSocket-Protocol
+  handshakeTimeoutMs?: number;
+}
+
+/**
+ * Client transport for MCP over WebSocket, one JSON-RPC message per text frame.
+ * Unlike the SDK's WebSocketClientTransport (which relies on the browser WebSocket API),
+ * this one can send custom headers with the upgrade request.
+ */
+export class WebSocketClientTransport implements Transport {
+  private socket: WebSocket | undefined;
+
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  constructor(private readonly url: URL, private readonly options: WebSocketClientTransportOptions = {}) {}
+
+  start(): Promise<void> {
+    if (this.socket) {
+      throw new Error("WebSocketClientTransport already started! If using Client class, note that connect() calls start() automatically.");
+    }
+
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(this.url, this.options.subprotocols ?? DEFAULT_SUBPROTOCOLS, {
+        headers: this.options.headers,
+        handshakeTimeout: this.options.handshakeTimeoutMs ?? 30000,
+      });
+      this.socket = socket;
+      let opened = false;
+
+      socket.on("open", () => {
+        opened = true;
+        resolve();
+      });
+      socket.on("error", (error) => {
+        if (!opened) {
+          reject(error);
+        }
+        this.onerror?.(error);
+      });
+      socket.on("close", () => {
+        this.socket = undefined;
+        this.onclose?.();
+      });
+      socket.on("message", (data, isBinary) => {
+        let message: JSONRPCMessage;
+        try {
+          if (isBinary) {
+            throw new Error("Unexpected binary WebSocket message");
+          }
+          message = JSONRPCMessageSchema.parse(JSON.parse(data.toString()));
+        } catch (error) {
+          this.onerror?.(error as Error);
+          return;
+        }
+        this.onmessage?.(message);
+      });
+    });
+  }
+
+  send(message: JSONRPCMessage): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket || this.socket.readyState !== WebSocket.OPEN) {
+        reject(new Error("Not connected"));
+        return;
+      }
+      this.socket.send(JSON.stringify(message), (error) => (error ? reject(error) : resolve()));
+    });
+  }
+
+  async close(): Promise<void> {
+    this.socket?.close();
+  }
+}
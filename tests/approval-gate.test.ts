@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import axios from 'axios';
+import { ApprovalGate } from '../src/approval-gate';
+
+vi.mock('axios');
+vi.mock('../src/notification-logger.js', () => ({
+  logMcpActivity: vi.fn().mockResolvedValue(undefined)
+}));
+
+describe('Approval Gate', () => {
+  const request = { toolName: 'github__delete_repo', serverName: 'github', serverUuid: 'uuid-1', args: { repo: 'demo' } };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.env.PLUGGEDIN_API_KEY = 'test-api-key-0123456789abcdefghijklmnop';
+    process.env.PLUGGEDIN_API_BASE_URL = 'https://test.example.com';
+  });
+
+  afterEach(() => {
+    delete process.env.PLUGGEDIN_API_KEY;
+    delete process.env.PLUGGEDIN_API_BASE_URL;
+  });
+
+  it('should run the call when the user accepts the elicitation', async () => {
+    const gate = new ApprovalGate();
+    const extra = {
+      signal: new AbortController().signal,
+      sendRequest: vi.fn().mockResolvedValue({ action: 'accept', content: { approve: true } })
+    } as any;
+
+    await expect(gate.requireApproval(request, extra, true)).resolves.toBeUndefined();
+    expect(extra.sendRequest).toHaveBeenCalledWith(
+      expect.objectContaining({ method: 'elicitation/create' }),
+      expect.anything(),
+      expect.objectContaining({ timeout: 300000 })
+    );
+  });
+
+  it('should reject the call when the user declines', async () => {
+    const gate = new ApprovalGate();
+    const extra = {
+      signal: new AbortController().signal,
+      sendRequest: vi.fn().mockResolvedValue({ action: 'decline' })
+    } as any;
+
+    await expect(gate.requireApproval(request, extra, true)).rejects.toThrow('was not approved');
+  });
+
+  it('should post an approval notification and approve one retry once it is marked done', async () => {
+    const gate = new ApprovalGate();
+    const extra = { sessionId: 'session-1' } as any;
+    vi.mocked(axios.post).mockResolvedValue({ data: { notification: { id: 'notification-1' } } });
+
+    await expect(gate.requireApproval(request, extra, false)).rejects.toThrow('requires approval');
+    const title = (vi.mocked(axios.post).mock.calls[0][1] as any).title;
+    expect(title).toMatch(/^Approval required: github__delete_repo \[[0-9a-f]+\]$/);
+
+    // Not yet marked as done
+    vi.mocked(axios.get).mockResolvedValueOnce({ data: { notification: { id: 'notification-1', title, completed: false } } });
+    await expect(gate.requireApproval(request, extra, false)).rejects.toThrow('still awaiting approval');
+    expect(vi.mocked(axios.get).mock.calls[0][0]).toBe('https://test.example.com/api/notifications/notification-1');
+
+    vi.mocked(axios.get).mockResolvedValueOnce({ data: { notification: { id: 'notification-1', title, completed: true } } });
+    await expect(gate.requireApproval(request, extra, false)).resolves.toBeUndefined();
+
+    // The approval was used up, so the next identical call asks again
+    await expect(gate.requireApproval(request, extra, false)).rejects.toThrow('requires approval');
+    expect(axios.post).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not let the notification tools complete approval notifications', async () => {
+    const gate = new ApprovalGate();
+    vi.mocked(axios.post).mockResolvedValue({ data: { notification: { id: 'notification-1' } } });
+    await gate.requireApproval(request, { sessionId: 'session-1' } as any, false).catch(() => {});
+
+    await expect(gate.assertNotApprovalNotification('notification-1')).rejects.toThrow('only be completed by the user');
+
+    // Approvals posted elsewhere are recognised by their title
+    vi.mocked(axios.get).mockResolvedValueOnce({ data: { notification: { title: 'Approval required: x [abcd1234]' } } });
+    await expect(gate.assertNotApprovalNotification('notification-2')).rejects.toThrow('only be completed by the user');
+
+    vi.mocked(axios.get).mockResolvedValueOnce({ data: { notification: { title: 'Build finished' } } });
+    await expect(gate.assertNotApprovalNotification('notification-3')).resolves.toBeUndefined();
+  });
+});
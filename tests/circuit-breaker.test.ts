@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { CircuitBreaker, CircuitBreakerRegistry } from '../src/circuit-breaker';
+
+vi.mock('../src/notification-logger.js', () => ({
+  logMcpActivity: vi.fn().mockResolvedValue(undefined)
+}));
+
+describe('Circuit Breaker', () => {
+  const options = {
+    windowSize: 10,
+    minimumCalls: 4,
+    errorRateThreshold: 0.5,
+    slowCallThresholdMs: 1000,
+    openDurationMs: 5000,
+    halfOpenMaxCalls: 1
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should stay closed until the minimum number of calls is reached', () => {
+    const breaker = new CircuitBreaker('uuid', 'server', options);
+
+    for (let i = 0; i < 3; i++) {
+      expect(breaker.tryAcquire()).toBe(true);
+      breaker.recordFailure(10);
+    }
+
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('should open when the error rate crosses the threshold', () => {
+    const onTransition = vi.fn();
+    const breaker = new CircuitBreaker('uuid', 'server', options, onTransition);
+
+    breaker.recordSuccess(10);
+    breaker.recordSuccess(10);
+    breaker.recordFailure(10);
+    breaker.recordFailure(10);
+
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.tryAcquire()).toBe(false);
+    expect(onTransition).toHaveBeenCalledWith(expect.objectContaining({ from: 'closed', to: 'open' }));
+  });
+
+  it('should count slow calls as failures', () => {
+    const breaker = new CircuitBreaker('uuid', 'server', options);
+
+    for (let i = 0; i < 4; i++) {
+      breaker.recordSuccess(2000);
+    }
+
+    expect(breaker.getState()).toBe('open');
+  });
+
+  it('should not count slow calls by default, since tool calls have their own timeout', () => {
+    const breaker = new CircuitBreakerRegistry().get('uuid', 'server', { minimumCalls: 4 });
+
+    for (let i = 0; i < 4; i++) {
+      breaker.recordSuccess(59000);
+    }
+
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('should allow a single trial call once the open duration has elapsed', () => {
+    const breaker = new CircuitBreaker('uuid', 'server', options);
+    for (let i = 0; i < 4; i++) {
+      breaker.recordFailure(10);
+    }
+
+    vi.advanceTimersByTime(5000);
+
+    expect(breaker.getState()).toBe('half-open');
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.tryAcquire()).toBe(false);
+
+    breaker.recordSuccess(10);
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('should re-open when the trial call fails', () => {
+    const breaker = new CircuitBreaker('uuid', 'server', options);
+    for (let i = 0; i < 4; i++) {
+      breaker.recordFailure(10);
+    }
+
+    vi.advanceTimersByTime(5000);
+    expect(breaker.tryAcquire()).toBe(true);
+    breaker.recordFailure(10);
+
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.getRetryAfterMs()).toBe(5000);
+  });
+
+  it('should keep one breaker per server and reset it when overrides change', () => {
+    const registry = new CircuitBreakerRegistry();
+
+    const first = registry.get('uuid', 'server');
+    expect(registry.get('uuid', 'server')).toBe(first);
+    expect(registry.get('uuid', 'server', { openDurationMs: 1000 })).not.toBe(first);
+    expect(registry.get('other', 'other')).not.toBe(first);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { connectPluggedinMCPClient } from '../src/client';
+import { ServerParameters } from '../src/types';
+
+describe('Client', () => {
+  // Requests the transports made, in order
+  let requests: { method: string; headers: Headers }[];
+
+  // Answers initialize POSTs with the given status (or network error), and fails the SSE stream
+  const stubFetch = (postResponse: () => Response | Promise<Response>) => {
+    vi.stubGlobal('fetch', vi.fn(async (_input: unknown, init?: RequestInit) => {
+      const method = init?.method ?? 'GET';
+      requests.push({ method, headers: new Headers(init?.headers) });
+      return method === 'POST' ? postResponse() : new Response('unavailable', { status: 503 });
+    }));
+  };
+
+  const autoServer = (uuid: string): ServerParameters => ({ uuid, name: uuid, type: 'AUTO', url: 'http://127.0.0.1:1/mcp' });
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should fall back to SSE when an AUTO server answers initialize with a 4xx', async () => {
+    stubFetch(() => new Response('not found', { status: 404 }));
+
+    // The SSE stream fails too, so the connect still gives up
+    await expect(connectPluggedinMCPClient(autoServer('auto-404'), 1)).resolves.toBeUndefined();
+
+    expect(requests.map(({ method }) => method)).toEqual(['POST', 'GET']);
+    expect(requests[1].headers.get('accept')).toBe('text/event-stream');
+  });
+
+  it.each([
+    ['a 401, which is left to OAuth', () => new Response('unauthorized', { status: 401 })],
+    ['a 5xx', () => new Response('internal error', { status: 500 })],
+    ['a network error', () => Promise.reject(new TypeError('fetch failed'))],
+  ])('should not fall back to SSE on %s', async (_case, postResponse) => {
+    stubFetch(postResponse);
+
+    await expect(connectPluggedinMCPClient(autoServer('auto-no-fallback'), 1)).resolves.toBeUndefined();
+
+    expect(requests.map(({ method }) => method)).toEqual(['POST']);
+  });
+
+  it('should send configured headers and the bearer token with the SSE event stream request', async () => {
+    stubFetch(() => new Response('not used', { status: 500 }));
+
+    await connectPluggedinMCPClient({
+      uuid: 'sse-headers', name: 'sse', type: 'SSE', url: 'http://127.0.0.1:1/sse',
+      headers: { 'X-Api-Key': 'key-1' }, oauthToken: 'token-1',
+    }, 1);
+
+    expect(requests).toHaveLength(1);
+    expect(Object.fromEntries(requests[0].headers)).toMatchObject({
+      accept: 'text/event-stream',
+      authorization: 'Bearer token-1',
+      'x-api-key': 'key-1',
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ConcurrencyLimiter, ConcurrencyLimiterRegistry } from '../src/concurrency-limiter';
+
+describe('Concurrency Limiter', () => {
+  const options = { maxConcurrent: 1, maxQueueLength: 2, queueTimeoutMs: 1000 };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should run queued requests one at a time in FIFO order', async () => {
+    const limiter = new ConcurrencyLimiter('server', options);
+    const order: string[] = [];
+
+    const first = await limiter.acquire();
+    const second = limiter.run(async () => { order.push('second'); });
+    const third = limiter.run(async () => { order.push('third'); });
+    expect(limiter.getMetrics()).toMatchObject({ active: 1, queued: 2 });
+
+    await vi.advanceTimersByTimeAsync(200);
+    first();
+    await Promise.all([second, third]);
+
+    expect(order).toEqual(['second', 'third']);
+    expect(limiter.getMetrics()).toMatchObject({ active: 0, queued: 0, totalRequests: 3, totalQueued: 2, maxWaitMs: 200 });
+  });
+
+  it('should fail requests that wait too long or find the queue full', async () => {
+    const limiter = new ConcurrencyLimiter('server', options);
+    await limiter.acquire();
+
+    const waiting = limiter.acquire();
+    const alsoWaiting = limiter.acquire();
+    await expect(limiter.acquire()).rejects.toThrow('Server server is busy: 2 requests are already queued');
+
+    const assertions = Promise.all([
+      expect(waiting).rejects.toThrow('timed out after waiting 1000ms in its queue'),
+      expect(alsoWaiting).rejects.toThrow('timed out'),
+    ]);
+    await vi.advanceTimersByTimeAsync(1000);
+    await assertions;
+
+    expect(limiter.getMetrics()).toMatchObject({ queued: 0, timedOut: 2, rejected: 1 });
+  });
+
+  it('should drop a queued request when its caller cancels it', async () => {
+    const limiter = new ConcurrencyLimiter('server', options);
+    const release = await limiter.acquire();
+    const controller = new AbortController();
+
+    const cancelled = limiter.acquire(controller.signal);
+    controller.abort(new Error('cancelled'));
+
+    await expect(cancelled).rejects.toThrow('cancelled');
+    release();
+    expect(limiter.getMetrics()).toMatchObject({ active: 0, queued: 0 });
+  });
+
+  it('should apply per-server overrides on top of the defaults', () => {
+    const registry = new ConcurrencyLimiterRegistry();
+    registry.configure({ maxConcurrent: 4 });
+
+    expect(registry.get('uuid-1', 'one').getMetrics().maxConcurrent).toBe(4);
+    expect(registry.get('uuid-2', 'two', { maxConcurrent: 1 }).getMetrics().maxConcurrent).toBe(1);
+    expect(registry.get('uuid-1', 'one')).toBe(registry.get('uuid-1', 'one'));
+  });
+});
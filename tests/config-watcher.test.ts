@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { diffServerConfigs } from '../src/config-watcher';
+import { ServerParameters } from '../src/types';
+
+describe('Config Watcher', () => {
+  const echo: ServerParameters = { uuid: 'uuid-echo', name: 'echo', type: 'STDIO', command: 'node', args: ['echo.js'] };
+  const remote: ServerParameters = { uuid: 'uuid-remote', name: 'remote', type: 'STREAMABLE_HTTP', url: 'https://example.com/mcp' };
+  const search: ServerParameters = { uuid: 'uuid-search', name: 'search', type: 'SSE', url: 'https://example.com/sse' };
+
+  it('should report added, removed and changed servers', () => {
+    const diff = diffServerConfigs(
+      { [echo.uuid]: echo, [remote.uuid]: remote },
+      { [echo.uuid]: { ...echo, args: ['echo.js', '--verbose'] }, [search.uuid]: search }
+    );
+
+    expect(diff).toEqual({ added: ['uuid-search'], removed: ['uuid-remote'], changed: ['uuid-echo'] });
+  });
+
+  it('should report nothing when the servers are unchanged', () => {
+    const diff = diffServerConfigs(
+      { [echo.uuid]: echo, [remote.uuid]: remote },
+      { [remote.uuid]: { ...remote }, [echo.uuid]: { ...echo } }
+    );
+
+    expect(diff).toEqual({ added: [], removed: [], changed: [] });
+  });
+
+  it('should treat any changed setting, such as env or headers, as a change', () => {
+    const diff = diffServerConfigs(
+      { [echo.uuid]: echo, [remote.uuid]: remote },
+      { [echo.uuid]: { ...echo, env: { TOKEN: 'rotated' } }, [remote.uuid]: { ...remote, headers: { 'X-Api-Key': 'key' } } }
+    );
+
+    expect(diff.changed).toEqual(['uuid-echo', 'uuid-remote']);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { existsSync, mkdtempSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { getMcpServers } from '../src/fetch-pluggedinmcp';
+import { getSession, hasSession } from '../src/sessions';
+import { getSessionKey } from '../src/utils';
+import { ServerParameters } from '../src/types';
+
+vi.mock('../src/fetch-pluggedinmcp.js', () => ({
+  getMcpServers: vi.fn(),
+}));
+
+vi.mock('../src/sessions.js', () => ({
+  getSession: vi.fn(),
+  hasSession: vi.fn(() => false),
+}));
+
+// Fresh module state, as after a proxy restart
+async function importDiscovery() {
+  vi.resetModules();
+  return import('../src/downstream-discovery');
+}
+
+describe('Downstream Discovery', () => {
+  let manifestDir: string;
+
+  beforeEach(() => {
+    manifestDir = mkdtempSync(path.join(os.tmpdir(), 'manifests-'));
+    process.env.PLUGGEDIN_MANIFEST_DIR = manifestDir;
+    process.env.PLUGGEDIN_LAZY_SESSIONS = 'true';
+    vi.mocked(hasSession).mockReturnValue(false);
+  });
+
+  afterEach(() => {
+    rmSync(manifestDir, { recursive: true, force: true });
+    vi.clearAllMocks();
+    delete process.env.PLUGGEDIN_MANIFEST_DIR;
+    delete process.env.PLUGGEDIN_LAZY_SESSIONS;
+  });
+
+  it('should list declared tools without starting the server', async () => {
+    vi.mocked(getMcpServers).mockResolvedValue({
+      'uuid-1': {
+        uuid: 'uuid-1', name: 'echo', type: 'STDIO', command: 'node',
+        tools: [{ name: 'echo', inputSchema: { type: 'object' } }],
+      },
+    });
+    const { listDownstreamTools, listDownstreamPrompts } = await importDiscovery();
+
+    expect(await listDownstreamTools()).toEqual([
+      { name: 'echo', inputSchema: { type: 'object' }, _serverUuid: 'uuid-1', _serverName: 'echo' },
+    ]);
+    expect(await listDownstreamPrompts()).toEqual([]);
+    expect(getSession).not.toHaveBeenCalled();
+  });
+
+  it('should list a server from its saved manifest after a restart', async () => {
+    const server: ServerParameters = { uuid: 'uuid-1', name: 'echo', type: 'STDIO', command: 'node' };
+    vi.mocked(getMcpServers).mockResolvedValue({ 'uuid-1': server });
+    vi.mocked(getSession).mockResolvedValue({
+      client: {
+        getServerCapabilities: () => ({ tools: {} }),
+        listTools: vi.fn().mockResolvedValue({ tools: [{ name: 'echo', inputSchema: { type: 'object' } }] }),
+      },
+    } as any);
+
+    // The first listing has to start the server, and saves what it lists
+    await (await importDiscovery()).listDownstreamTools();
+    expect(getSession).toHaveBeenCalledTimes(1);
+    expect(existsSync(path.join(manifestDir, `${getSessionKey('uuid-1', server)}.json`))).toBe(true);
+
+    const { listDownstreamTools } = await importDiscovery();
+    expect(await listDownstreamTools()).toEqual([
+      { name: 'echo', inputSchema: { type: 'object' }, _serverUuid: 'uuid-1', _serverName: 'echo' },
+    ]);
+    expect(getSession).toHaveBeenCalledTimes(1);
+  });
+
+  it('should list a running server live', async () => {
+    vi.mocked(getMcpServers).mockResolvedValue({
+      'uuid-1': {
+        uuid: 'uuid-1', name: 'echo', type: 'STDIO', command: 'node',
+        tools: [{ name: 'declared', inputSchema: { type: 'object' } }],
+      },
+    });
+    vi.mocked(hasSession).mockReturnValue(true);
+    vi.mocked(getSession).mockResolvedValue({
+      client: {
+        getServerCapabilities: () => ({ tools: {} }),
+        listTools: vi.fn().mockResolvedValue({ tools: [{ name: 'live', inputSchema: { type: 'object' } }] }),
+      },
+    } as any);
+    const { listDownstreamTools } = await importDiscovery();
+
+    expect((await listDownstreamTools()).map((tool) => tool.name)).toEqual(['live']);
+  });
+
+  it('should keep listing a server from its last listing while it is reconnecting', async () => {
+    vi.mocked(getMcpServers).mockResolvedValue({ 'uuid-1': { uuid: 'uuid-1', name: 'echo', type: 'STDIO', command: 'node' } });
+    vi.mocked(hasSession).mockReturnValue(true);
+    vi.mocked(getSession).mockResolvedValueOnce({
+      client: {
+        getServerCapabilities: () => ({ tools: {} }),
+        listTools: vi.fn().mockResolvedValue({ tools: [{ name: 'echo', inputSchema: { type: 'object' } }] }),
+      },
+    } as any);
+    const { listDownstreamTools } = await importDiscovery();
+    await listDownstreamTools();
+
+    // The supervisor is reconnecting, so there is no session to ask
+    vi.mocked(getSession).mockResolvedValueOnce(undefined);
+    expect((await listDownstreamTools()).map((tool) => tool.name)).toEqual(['echo']);
+  });
+});
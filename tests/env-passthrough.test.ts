@@ -0,0 +1,52 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { getDefaultEnvironment } from '../src/utils';
+import { resolveEnvReferences } from '../src/env-references';
+
+describe('Env Passthrough', () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    process.env.PATH = '/usr/bin';
+    process.env.PLUGGEDIN_API_KEY = 'pg_in_secret';
+    process.env.XDG_CONFIG_HOME = '/home/user/.config';
+    process.env.XDG_DATA_HOME = '/home/user/.local/share';
+    process.env.PYTHONPATH = '/opt/lib';
+    process.env.AWS_SECRET_ACCESS_KEY = 'aws-secret';
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  it('should only pass the default variables unless more are allowed', () => {
+    const env = getDefaultEnvironment();
+
+    expect(env.PATH).toBe('/usr/bin');
+    expect(env).not.toHaveProperty('XDG_CONFIG_HOME');
+    expect(env).not.toHaveProperty('PYTHONPATH');
+    expect(env).not.toHaveProperty('PLUGGEDIN_API_KEY');
+  });
+
+  it('should add global and per-server glob patterns', () => {
+    process.env.PLUGGEDIN_ENV_PASSTHROUGH = 'XDG_*, NODE_EXTRA_CA_CERTS';
+
+    const env = getDefaultEnvironment(['PYTHONPATH']);
+
+    expect(env.XDG_CONFIG_HOME).toBe('/home/user/.config');
+    expect(env.XDG_DATA_HOME).toBe('/home/user/.local/share');
+    expect(env.PYTHONPATH).toBe('/opt/lib');
+    expect(getDefaultEnvironment()).not.toHaveProperty('PYTHONPATH');
+  });
+
+  it('should never pass denied variables, even to a catch-all pattern', () => {
+    process.env.PLUGGEDIN_ENV_PASSTHROUGH = '*';
+    process.env.PLUGGEDIN_ENV_DENY = 'AWS_*';
+
+    const env = getDefaultEnvironment();
+
+    expect(env.PYTHONPATH).toBe('/opt/lib');
+    expect(env).not.toHaveProperty('PLUGGEDIN_API_KEY');
+    expect(env).not.toHaveProperty('AWS_SECRET_ACCESS_KEY');
+    expect(() => resolveEnvReferences({ KEY: '${env:PLUGGEDIN_API_KEY}' })).toThrow('on the env denylist');
+  });
+});
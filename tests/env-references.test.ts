@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { resolveEnvReferences } from '../src/env-references';
+
+describe('Env References', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'pluggedin-env-'));
+    process.env.PLUGGEDIN_SECRETS_FILE = path.join(dir, 'secrets.yaml');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+    delete process.env.PLUGGEDIN_SECRETS_FILE;
+    delete process.env.PLUGGEDIN_TEST_HOST_VAR;
+    delete process.env.PLUGGEDIN_MULTI_TENANT;
+  });
+
+  it('should resolve secret, file and env references', () => {
+    writeFileSync(path.join(dir, 'secrets.yaml'), 'GITHUB_TOKEN: ghp_local\n');
+    writeFileSync(path.join(dir, 'token'), 'file-token\n');
+    process.env.PLUGGEDIN_TEST_HOST_VAR = 'db.internal';
+
+    expect(resolveEnvReferences({
+      GITHUB_TOKEN: '${secret:GITHUB_TOKEN}',
+      API_TOKEN: `Bearer \${file:${path.join(dir, 'token')}}`,
+      DB_URL: 'postgres://${env:PLUGGEDIN_TEST_HOST_VAR}:5432',
+      PLAIN: 'value',
+    })).toEqual({
+      GITHUB_TOKEN: 'ghp_local',
+      API_TOKEN: 'Bearer file-token',
+      DB_URL: 'postgres://db.internal:5432',
+      PLAIN: 'value',
+    });
+  });
+
+  it('should pick up rotated secrets on the next resolution', () => {
+    const secretsFile = path.join(dir, 'secrets.yaml');
+    writeFileSync(secretsFile, 'TOKEN: old\n');
+    expect(resolveEnvReferences({ TOKEN: '${secret:TOKEN}' })).toEqual({ TOKEN: 'old' });
+
+    writeFileSync(secretsFile, 'TOKEN: new\n');
+    expect(resolveEnvReferences({ TOKEN: '${secret:TOKEN}' })).toEqual({ TOKEN: 'new' });
+  });
+
+  it('should fail instead of passing unresolved references through', () => {
+    writeFileSync(path.join(dir, 'secrets.yaml'), 'OTHER: value\n');
+
+    expect(() => resolveEnvReferences({ TOKEN: '${secret:MISSING}' })).toThrow('Cannot resolve TOKEN: secret MISSING is not defined');
+    expect(() => resolveEnvReferences({ HOST: '${env:PLUGGEDIN_TEST_HOST_VAR}' })).toThrow('environment variable PLUGGEDIN_TEST_HOST_VAR is not set');
+    expect(() => resolveEnvReferences({ KEY: '${file:relative/key}' })).toThrow('must be an absolute path');
+  });
+
+  it('should not resolve references in configs from multi-tenant API keys', () => {
+    writeFileSync(path.join(dir, 'secrets.yaml'), 'GITHUB_TOKEN: ghp_local\n');
+    process.env.PLUGGEDIN_MULTI_TENANT = 'true';
+
+    expect(() => resolveEnvReferences({ TOKEN: '${secret:GITHUB_TOKEN}' })).toThrow('Cannot resolve TOKEN: references are not resolved');
+    expect(() => resolveEnvReferences({ KEY: '${file:/etc/hostname}' })).toThrow('references are not resolved');
+    expect(resolveEnvReferences({ PLAIN: 'value' })).toEqual({ PLAIN: 'value' });
+  });
+});
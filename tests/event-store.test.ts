@@ -0,0 +1,62 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { existsSync, mkdtempSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { createEventStoreFactory, FileEventStore, RingBufferEventStore } from '../src/event-store';
+
+const notification = (n: number) => ({ jsonrpc: '2.0' as const, method: 'notifications/progress', params: { n } });
+
+async function replay(store: { replayEventsAfter: RingBufferEventStore['replayEventsAfter'] }, lastEventId: string) {
+  const sent: unknown[] = [];
+  const streamId = await store.replayEventsAfter(lastEventId, {
+    send: async (_eventId, message) => { sent.push((message as any).params.n); }
+  });
+  return { streamId, sent };
+}
+
+describe('Event Store', () => {
+  let directory: string | undefined;
+
+  afterEach(() => {
+    if (directory) {
+      rmSync(directory, { recursive: true, force: true });
+      directory = undefined;
+    }
+  });
+
+  it('should replay later events of the same stream only', async () => {
+    const store = new RingBufferEventStore(10);
+    const first = await store.storeEvent('_GET_stream', notification(1));
+    await store.storeEvent('request-stream', notification(2));
+    await store.storeEvent('_GET_stream', notification(3));
+
+    expect(await replay(store, first)).toEqual({ streamId: '_GET_stream', sent: [3] });
+  });
+
+  it('should forget events beyond its size', async () => {
+    const store = new RingBufferEventStore(2);
+    const first = await store.storeEvent('stream', notification(1));
+    const second = await store.storeEvent('stream', notification(2));
+    await store.storeEvent('stream', notification(3));
+
+    expect(await replay(store, first)).toEqual({ streamId: '', sent: [] });
+    expect(await replay(store, second)).toEqual({ streamId: 'stream', sent: [3] });
+  });
+
+  it('should keep events in a file per session when given a directory', async () => {
+    directory = mkdtempSync(path.join(os.tmpdir(), 'event-store-'));
+    const store = createEventStoreFactory({ maxEvents: 2, directory })('session-1');
+    expect(store).toBeInstanceOf(FileEventStore);
+
+    const ids = [];
+    for (let n = 1; n <= 5; n++) {
+      ids.push(await store.storeEvent('stream', notification(n)));
+    }
+
+    expect(await replay(store, ids[3])).toEqual({ streamId: 'stream', sent: [5] });
+    expect(await replay(store, ids[0])).toEqual({ streamId: '', sent: [] });
+
+    store.dispose();
+    expect(existsSync(path.join(directory, 'session-1.jsonl'))).toBe(false);
+  });
+});
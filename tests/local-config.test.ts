@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { loadLocalServerConfig } from '../src/local-config';
+
+describe('Local Config', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'pluggedin-config-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const writeConfig = (fileName: string, contents: string) => {
+    const filePath = path.join(dir, fileName);
+    writeFileSync(filePath, contents);
+    return filePath;
+  };
+
+  it('should load JSON servers keyed by a stable UUID', () => {
+    const filePath = writeConfig('servers.json', JSON.stringify({
+      mcpServers: {
+        filesystem: { command: 'npx', args: ['-y', 'server-filesystem'] },
+        remote: { type: 'STREAMABLE_HTTP', url: 'https://example.com/mcp' }
+      }
+    }));
+
+    const first = loadLocalServerConfig(filePath);
+    const second = loadLocalServerConfig(filePath);
+
+    expect(Object.keys(first)).toEqual(Object.keys(second));
+    const servers = Object.values(first);
+    expect(servers).toHaveLength(2);
+    expect(servers[0]).toMatchObject({ name: 'filesystem', type: 'STDIO', command: 'npx' });
+    expect(servers[1]).toMatchObject({ name: 'remote', type: 'STREAMABLE_HTTP' });
+    expect(servers[0].uuid).toMatch(/^[0-9a-f-]{36}$/);
+  });
+
+  it('should load YAML servers and honor an explicit UUID', () => {
+    const filePath = writeConfig('servers.yaml', [
+      'mcpServers:',
+      '  legacy:',
+      '    type: SSE',
+      '    uuid: 11111111-2222-4333-8444-555555555555',
+      '    url: http://localhost:8080/sse',
+    ].join('\n'));
+
+    const servers = loadLocalServerConfig(filePath);
+
+    expect(servers['11111111-2222-4333-8444-555555555555']).toMatchObject({
+      name: 'legacy',
+      type: 'SSE',
+      url: 'http://localhost:8080/sse'
+    });
+  });
+
+  it('should reject servers missing their transport target', () => {
+    const filePath = writeConfig('servers.json', JSON.stringify({
+      mcpServers: {
+        broken: { type: 'SSE' }
+      }
+    }));
+
+    expect(() => loadLocalServerConfig(filePath)).toThrow(/SSE servers require a url/);
+  });
+
+  it('should report unreadable files', () => {
+    expect(() => loadLocalServerConfig(path.join(dir, 'missing.json'))).toThrow(/Failed to read config file/);
+  });
+});
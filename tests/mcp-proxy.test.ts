@@ -0,0 +1,186 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { LoggingMessageNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { createServer } from '../src/mcp-proxy';
+import { getMcpServers } from '../src/fetch-pluggedinmcp';
+import { getSession } from '../src/sessions';
+import { listDownstreamTools } from '../src/downstream-discovery';
+import { circuitBreakers } from '../src/circuit-breaker';
+import { concurrencyLimiters } from '../src/concurrency-limiter';
+import { toolPolicies } from '../src/tool-policy';
+import { ServerParameters } from '../src/types';
+
+vi.mock('../src/fetch-pluggedinmcp.js', () => ({
+  getMcpServers: vi.fn(),
+}));
+
+vi.mock('../src/sessions.js', () => ({
+  getSession: vi.fn(),
+  getServerHealth: vi.fn(),
+  getServerUnavailableReason: vi.fn(),
+  trackSessionRequest: vi.fn((_sessionKey: string, request: Promise<unknown>) => request),
+  initSessions: vi.fn(),
+  cleanupAllSessions: vi.fn(),
+}));
+
+vi.mock('../src/downstream-discovery.js', () => ({
+  listDownstreamTools: vi.fn(),
+  listDownstreamPrompts: vi.fn().mockResolvedValue([]),
+  listDownstreamResources: vi.fn().mockResolvedValue([]),
+  listDownstreamResourceTemplates: vi.fn().mockResolvedValue([]),
+}));
+
+vi.mock('../src/notification-logger.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/notification-logger')>()),
+  logMcpActivity: vi.fn().mockResolvedValue(undefined),
+}));
+
+describe('MCP Proxy', () => {
+  const servers: Record<string, ServerParameters> = {
+    'uuid-1': { uuid: 'uuid-1', name: 'echo', type: 'STDIO', command: 'node', concurrency: { maxConcurrent: 1 } },
+  };
+  let client: Client;
+  let cleanup: () => Promise<void>;
+  let forgetSession: (sessionId: string) => void;
+
+  // Connects an upstream client to a fresh proxy server and lists tools so calls can be routed
+  async function connect() {
+    const proxy = await createServer();
+    cleanup = proxy.cleanup;
+    forgetSession = proxy.forgetSession;
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    serverTransport.sessionId = 'session-1';
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await Promise.all([proxy.server.connect(serverTransport), client.connect(clientTransport)]);
+    await client.listTools();
+  }
+
+  beforeEach(async () => {
+    process.env.PLUGGEDIN_CONFIG_FILE = '/tmp/mcp-proxy-test.json';
+    vi.mocked(getMcpServers).mockResolvedValue(servers);
+    vi.mocked(listDownstreamTools).mockResolvedValue([
+      { name: 'echo', inputSchema: { type: 'object' }, _serverUuid: 'uuid-1', _serverName: 'echo' },
+    ]);
+    await connect();
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await cleanup();
+    circuitBreakers.reset();
+    concurrencyLimiters.reset();
+    toolPolicies.configure({ policies: [] });
+    vi.clearAllMocks();
+    delete process.env.PLUGGEDIN_CONFIG_FILE;
+  });
+
+  it('should free the slot and record a breaker failure when the session cannot be started', async () => {
+    vi.mocked(getSession).mockRejectedValueOnce(new Error('spawn node ENOENT'));
+
+    await expect(client.callTool({ name: 'echo', arguments: {} })).rejects.toThrow('spawn node ENOENT');
+    expect(concurrencyLimiters.getMetrics('uuid-1')?.active).toBe(0);
+
+    // The next call gets the slot and reaches the server
+    const request = vi.fn().mockResolvedValue({ content: [{ type: 'text', text: 'hello' }] });
+    vi.mocked(getSession).mockResolvedValueOnce({ client: { request, setNotificationHandler: vi.fn() } } as any);
+    await expect(client.callTool({ name: 'echo', arguments: {} })).resolves.toMatchObject({ content: [{ text: 'hello' }] });
+  });
+
+  it('should complete a half-open trial when the session cannot be started', async () => {
+    vi.mocked(getMcpServers).mockResolvedValue({
+      'uuid-1': { ...servers['uuid-1'], circuitBreaker: { minimumCalls: 1, windowSize: 1, openDurationMs: 0 } },
+    });
+    vi.mocked(getSession).mockRejectedValue(new Error('spawn node ENOENT'));
+
+    // Trips the breaker, which is half-open again straight away
+    await expect(client.callTool({ name: 'echo', arguments: {} })).rejects.toThrow('spawn node ENOENT');
+    // The trial fails too, rather than leaving the breaker waiting on it
+    await expect(client.callTool({ name: 'echo', arguments: {} })).rejects.toThrow('spawn node ENOENT');
+    await expect(client.callTool({ name: 'echo', arguments: {} })).rejects.toThrow('spawn node ENOENT');
+  });
+
+  it('should leave tools the connection may not use out of local discovery', async () => {
+    toolPolicies.configure({ default: { deny: ['secret_*'] }, policies: [] });
+    vi.mocked(listDownstreamTools).mockResolvedValue([
+      { name: 'echo', inputSchema: { type: 'object' }, _serverUuid: 'uuid-1', _serverName: 'echo' },
+      { name: 'secret_dump', inputSchema: { type: 'object' }, _serverUuid: 'uuid-1', _serverName: 'echo' },
+    ]);
+
+    const result = await client.callTool({ name: 'pluggedin_discover_tools', arguments: {} });
+    const text = (result.content as { text: string }[])[0].text;
+
+    expect(text).toContain('Dynamic MCP Tools (1)');
+    expect(text).toContain('**echo**');
+    expect(text).not.toContain('secret_dump');
+  });
+
+  it('should rate limit static tools but not downstream tools', async () => {
+    const request = vi.fn().mockResolvedValue({ content: [] });
+    vi.mocked(getSession).mockResolvedValue({ client: { request, setNotificationHandler: vi.fn() } } as any);
+
+    for (let call = 0; call < 60; call++) {
+      await client.callTool({ name: 'pluggedin_get_server_logs', arguments: { server: 'echo' } });
+    }
+    await expect(client.callTool({ name: 'pluggedin_get_server_logs', arguments: { server: 'echo' } }))
+      .rejects.toThrow('Rate limit exceeded');
+
+    // Downstream calls are only limited by the server's concurrency limit
+    await expect(client.callTool({ name: 'echo', arguments: {} })).resolves.toMatchObject({ content: [] });
+  });
+
+  it('should forget the log level of a session once it closes', async () => {
+    let onLogMessage: (notification: unknown) => void = () => {};
+    const setNotificationHandler = vi.fn((_schema, handler) => { onLogMessage = handler; });
+    const request = vi.fn(async () => {
+      onLogMessage({ method: 'notifications/message', params: { level: 'warning', data: 'disk almost full' } });
+      return { content: [] };
+    });
+    vi.mocked(getSession).mockResolvedValue({ client: { request, setNotificationHandler } } as any);
+    const levels: string[] = [];
+    client.setNotificationHandler(LoggingMessageNotificationSchema, (notification) => {
+      levels.push(notification.params.level);
+    });
+
+    await client.setLoggingLevel('error');
+    await client.callTool({ name: 'echo', arguments: {} });
+    expect(levels).toEqual([]);
+
+    // A session that reuses the ID later starts from the default level again
+    forgetSession('session-1');
+    await client.callTool({ name: 'echo', arguments: {} });
+    expect(levels).toEqual(['warning']);
+  });
+
+  it('should call the downstream tool with its configured timeout', async () => {
+    vi.mocked(getMcpServers).mockResolvedValue({
+      'uuid-1': { ...servers['uuid-1'], toolTimeoutMs: 120000, toolTimeouts: { echo: 300000 } },
+    });
+    const request = vi.fn().mockResolvedValue({ content: [] });
+    vi.mocked(getSession).mockResolvedValue({ client: { request, setNotificationHandler: vi.fn() } } as any);
+
+    await client.callTool({ name: 'echo', arguments: {} });
+
+    expect(request.mock.calls[0][2]).toMatchObject({ timeout: 300000 });
+  });
+
+  it('should abort the downstream call when the upstream client cancels it', async () => {
+    let downstreamSignal: AbortSignal | undefined;
+    const request = vi.fn((_request, _schema, options: { signal: AbortSignal }) => {
+      downstreamSignal = options.signal;
+      return new Promise((_resolve, reject) => {
+        options.signal.addEventListener('abort', () => reject(options.signal.reason));
+      });
+    });
+    vi.mocked(getSession).mockResolvedValue({ client: { request, setNotificationHandler: vi.fn() } } as any);
+
+    const upstream = new AbortController();
+    const call = client.callTool({ name: 'echo', arguments: {} }, undefined, { signal: upstream.signal });
+    await vi.waitFor(() => expect(request).toHaveBeenCalled());
+    upstream.abort('user cancelled');
+
+    await expect(call).rejects.toThrow();
+    // notifications/cancelled from upstream aborts the signal the downstream request was sent with
+    await vi.waitFor(() => expect(downstreamSignal?.aborted).toBe(true));
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { UpstreamRequestRelay } from '../src/notification-relay';
+
+// Minimal stand-in for a downstream Client that captures the log message handler
+function createDownstreamClient() {
+  let logHandler: ((notification: any) => void) | undefined;
+  const client = {
+    setNotificationHandler: vi.fn((_schema, handler) => {
+      logHandler = handler;
+    })
+  } as unknown as Client;
+  return { client, emitLog: (notification: any) => logHandler?.(notification) };
+}
+
+describe('Notification Relay', () => {
+  it('should relay progress with the upstream progress token and flush on close', async () => {
+    const { client } = createDownstreamClient();
+    const notify = vi.fn().mockResolvedValue(undefined);
+    const relay = new UpstreamRequestRelay(client, notify, { progressToken: 'upstream-token' });
+
+    relay.onprogress!({ progress: 1, total: 2 });
+    relay.onprogress!({ progress: 2, total: 2 });
+    await relay.close();
+
+    expect(notify.mock.calls.map(([notification]) => notification)).toEqual([
+      { method: 'notifications/progress', params: { progress: 1, total: 2, progressToken: 'upstream-token' } },
+      { method: 'notifications/progress', params: { progress: 2, total: 2, progressToken: 'upstream-token' } }
+    ]);
+  });
+
+  it('should not create a progress callback without a progress token', () => {
+    const { client } = createDownstreamClient();
+    const relay = new UpstreamRequestRelay(client, vi.fn());
+
+    expect(relay.onprogress).toBeUndefined();
+  });
+
+  it('should relay log messages once to the oldest in-flight request of a session', async () => {
+    const { client, emitLog } = createDownstreamClient();
+    const first = vi.fn().mockResolvedValue(undefined);
+    const second = vi.fn().mockResolvedValue(undefined);
+    const firstRelay = new UpstreamRequestRelay(client, first, { sessionId: 'session-1', minimumLevel: 'warning' });
+    const secondRelay = new UpstreamRequestRelay(client, second, { sessionId: 'session-1', minimumLevel: 'warning' });
+
+    expect(client.setNotificationHandler).toHaveBeenCalledTimes(1);
+
+    emitLog({ method: 'notifications/message', params: { level: 'info', data: 'working' } });
+    emitLog({ method: 'notifications/message', params: { level: 'error', data: 'failed' } });
+    await firstRelay.close();
+
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(first).toHaveBeenCalledWith({ method: 'notifications/message', params: { level: 'error', data: 'failed' } });
+    expect(second).not.toHaveBeenCalled();
+
+    // Once the first request is done, the next one receives the messages
+    emitLog({ method: 'notifications/message', params: { level: 'error', data: 'later' } });
+    await secondRelay.close();
+    expect(second).toHaveBeenCalledTimes(1);
+
+    // Closed relays no longer receive messages
+    emitLog({ method: 'notifications/message', params: { level: 'error', data: 'late' } });
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(second).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not relay log messages while requests of several sessions are in flight', async () => {
+    const { client, emitLog } = createDownstreamClient();
+    const first = vi.fn().mockResolvedValue(undefined);
+    const second = vi.fn().mockResolvedValue(undefined);
+    const firstRelay = new UpstreamRequestRelay(client, first, { sessionId: 'session-1' });
+    const secondRelay = new UpstreamRequestRelay(client, second, { sessionId: 'session-2' });
+
+    emitLog({ method: 'notifications/message', params: { level: 'info', data: 'whose?' } });
+    await firstRelay.close();
+    await secondRelay.close();
+
+    expect(first).not.toHaveBeenCalled();
+    expect(second).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { OAuthCallbackServer, OAuthCredentialStore, OAuthProviderRegistry, PluggedinOAuthProvider } from '../src/oauth-provider';
+import { ServerParameters } from '../src/types';
+
+describe('OAuth Provider', () => {
+  const tokens = { access_token: 'secret-access-token', token_type: 'Bearer', refresh_token: 'secret-refresh-token' };
+  const options = { storageDir: '', callbackPort: 38417, authorizationTimeoutMs: 5000, openBrowser: false };
+  let storageDir: string;
+
+  beforeEach(() => {
+    storageDir = mkdtempSync(path.join(os.tmpdir(), 'pluggedin-oauth-'));
+    delete process.env.PLUGGEDIN_OAUTH_ENCRYPTION_KEY;
+  });
+
+  afterEach(() => {
+    rmSync(storageDir, { recursive: true, force: true });
+    delete process.env.PLUGGEDIN_OAUTH_ENCRYPTION_KEY;
+  });
+
+  it('should store credentials encrypted per server', () => {
+    const store = new OAuthCredentialStore(storageDir);
+    store.save('uuid-1', { tokens });
+
+    expect(readFileSync(path.join(storageDir, 'uuid-1.json'), 'utf-8')).not.toContain('secret-access-token');
+    expect(new OAuthCredentialStore(storageDir).load('uuid-1')).toEqual({ tokens });
+    expect(store.load('uuid-2')).toEqual({});
+  });
+
+  it('should discard credentials encrypted with another key', () => {
+    process.env.PLUGGEDIN_OAUTH_ENCRYPTION_KEY = 'first-key';
+    new OAuthCredentialStore(storageDir).save('uuid-1', { tokens });
+
+    process.env.PLUGGEDIN_OAUTH_ENCRYPTION_KEY = 'second-key';
+    expect(new OAuthCredentialStore(storageDir).load('uuid-1')).toEqual({});
+  });
+
+  it('should persist tokens and forget them when they are invalidated', () => {
+    const params: ServerParameters = { uuid: 'uuid-1', name: 'remote', type: 'STREAMABLE_HTTP', oauth: { scopes: ['read'] } };
+    const store = new OAuthCredentialStore(storageDir);
+    const callbacks = new OAuthCallbackServer(options.callbackPort);
+    const provider = new PluggedinOAuthProvider(params, store, callbacks, options);
+
+    expect(provider.clientMetadata).toMatchObject({ redirect_uris: [callbacks.redirectUrl], scope: 'read', token_endpoint_auth_method: 'none' });
+    provider.saveClientInformation({ client_id: 'registered-client', redirect_uris: [callbacks.redirectUrl] });
+    provider.saveTokens(tokens);
+
+    const reloaded = new PluggedinOAuthProvider(params, store, callbacks, options);
+    expect(reloaded.clientInformation()).toMatchObject({ client_id: 'registered-client' });
+    expect(reloaded.tokens()).toEqual(tokens);
+
+    reloaded.invalidateCredentials('tokens');
+    expect(new PluggedinOAuthProvider(params, store, callbacks, options).tokens()).toBeUndefined();
+  });
+
+  it('should not send stored tokens to a server whose URL changed', () => {
+    const params: ServerParameters = { uuid: 'uuid-1', name: 'remote', type: 'STREAMABLE_HTTP', url: 'https://mcp.example.com/mcp', oauth: {} };
+    const store = new OAuthCredentialStore(storageDir);
+    const callbacks = new OAuthCallbackServer(options.callbackPort);
+    new PluggedinOAuthProvider(params, store, callbacks, options).saveTokens(tokens);
+
+    expect(new PluggedinOAuthProvider(params, store, callbacks, options).tokens()).toEqual(tokens);
+
+    const moved = { ...params, url: 'https://attacker.example/mcp' };
+    expect(new PluggedinOAuthProvider(moved, store, callbacks, options).tokens()).toBeUndefined();
+    expect(store.load('uuid-1')).toEqual({});
+  });
+
+  it('should delete the credentials of removed servers', () => {
+    const params: ServerParameters = { uuid: 'uuid-1', name: 'remote', type: 'STREAMABLE_HTTP', oauth: {} };
+    const registry = new OAuthProviderRegistry();
+    registry.configure({ ...options, storageDir });
+    registry.getProvider(params).saveTokens(tokens);
+
+    registry.removeProvider('uuid-1');
+    expect(registry.getProvider(params).tokens()).toEqual(tokens);
+
+    registry.removeProvider('uuid-1', true);
+    expect(new OAuthCredentialStore(storageDir).load('uuid-1')).toEqual({});
+    registry.reset();
+  });
+
+  it('should prefer a configured client over dynamic registration', () => {
+    const params: ServerParameters = { uuid: 'uuid-1', name: 'remote', type: 'STREAMABLE_HTTP', oauth: { clientId: 'static-client' } };
+    const provider = new PluggedinOAuthProvider(params, new OAuthCredentialStore(storageDir), new OAuthCallbackServer(options.callbackPort), options);
+
+    expect(provider.clientInformation()).toEqual({ client_id: 'static-client' });
+  });
+
+  it('should hand the redirected authorization code to the waiting authorization', async () => {
+    const params: ServerParameters = { uuid: 'uuid-1', name: 'remote', type: 'STREAMABLE_HTTP', oauth: {} };
+    const callbacks = new OAuthCallbackServer(options.callbackPort);
+    const provider = new PluggedinOAuthProvider(params, new OAuthCredentialStore(storageDir), callbacks, options);
+    const originalConsoleError = console.error;
+    console.error = () => {};
+
+    try {
+      const state = provider.state();
+      await provider.redirectToAuthorization(new URL(`https://auth.example.com/authorize?state=${state}`));
+      expect(provider.isAwaitingAuthorization()).toBe(true);
+
+      // Wait until the listener is up before simulating the browser redirect
+      let response: Response | undefined;
+      for (let attempt = 0; attempt < 50 && !response; attempt++) {
+        response = await fetch(`${callbacks.redirectUrl}?code=auth-code&state=${state}`).catch(async () => {
+          await new Promise((resolve) => setTimeout(resolve, 20));
+          return undefined;
+        });
+      }
+
+      expect(response?.status).toBe(200);
+      await expect(provider.waitForAuthorizationCode()).resolves.toBe('auth-code');
+      expect(provider.isAwaitingAuthorization()).toBe(false);
+    } finally {
+      console.error = originalConsoleError;
+      callbacks.close();
+    }
+  });
+});
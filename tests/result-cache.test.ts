@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ToolResultCache } from '../src/result-cache';
+import { ServerParameters } from '../src/types';
+
+describe('Tool Result Cache', () => {
+  const params: ServerParameters = { uuid: 'uuid-1', name: 'files', type: 'STDIO' };
+  const readTool = { serverUuid: 'uuid-1', originalName: 'read_file', readOnlyHint: true };
+  const writeTool = { serverUuid: 'uuid-1', originalName: 'write_file' };
+  const result = { content: [{ type: 'text', text: 'contents' }] };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should only cache annotated tools once enabled', () => {
+    const cache = new ToolResultCache();
+    expect(cache.getLimits(readTool, params)).toBeUndefined();
+
+    cache.configure({ enabled: true });
+    expect(cache.getLimits(readTool, params)).toEqual({ ttlMs: 60000, maxEntries: 100, maxEntryBytes: 1024 * 1024 });
+    expect(cache.getLimits(writeTool, params)).toBeUndefined();
+  });
+
+  it('should apply per-server and per-tool overrides', () => {
+    const cache = new ToolResultCache();
+    const configured: ServerParameters = {
+      ...params,
+      toolCache: { enabled: true, ttlMs: 5000, tools: { write_file: { enabled: true, maxEntries: 2 }, read_file: { enabled: false } } }
+    };
+
+    expect(cache.getLimits(writeTool, configured)).toEqual({ ttlMs: 5000, maxEntries: 2, maxEntryBytes: 1024 * 1024 });
+    expect(cache.getLimits(readTool, configured)).toBeUndefined();
+  });
+
+  it('should key results by canonicalized arguments and expire them', () => {
+    const cache = new ToolResultCache();
+    const limits = { ttlMs: 1000, maxEntries: 10, maxEntryBytes: 10000 };
+
+    cache.set(cache.getKey(readTool, { path: '/a', encoding: 'utf8' }), readTool, limits, result);
+
+    expect(cache.get(cache.getKey(readTool, { encoding: 'utf8', path: '/a' }))).toEqual(result);
+    expect(cache.get(cache.getKey(readTool, { path: '/b' }))).toBeUndefined();
+
+    vi.advanceTimersByTime(1000);
+    expect(cache.get(cache.getKey(readTool, { path: '/a', encoding: 'utf8' }))).toBeUndefined();
+  });
+
+  it('should evict the least recently used entries and skip oversized results', () => {
+    const cache = new ToolResultCache();
+    const limits = { ttlMs: 60000, maxEntries: 2, maxEntryBytes: 10000 };
+    const keyA = cache.getKey(readTool, { path: '/a' });
+    const keyB = cache.getKey(readTool, { path: '/b' });
+    const keyC = cache.getKey(readTool, { path: '/c' });
+
+    cache.set(keyA, readTool, limits, result);
+    cache.set(keyB, readTool, limits, result);
+    cache.get(keyA); // A is now more recently used than B
+    cache.set(keyC, readTool, limits, result);
+
+    expect(cache.get(keyA)).toEqual(result);
+    expect(cache.get(keyB)).toBeUndefined();
+    expect(cache.get(keyC)).toEqual(result);
+
+    const keyLarge = cache.getKey(readTool, { path: '/large' });
+    cache.set(keyLarge, readTool, { ...limits, maxEntryBytes: 10 }, result);
+    expect(cache.get(keyLarge)).toBeUndefined();
+  });
+
+  it('should drop a server\'s results when it is invalidated', () => {
+    const cache = new ToolResultCache();
+    const limits = { ttlMs: 60000, maxEntries: 10, maxEntryBytes: 10000 };
+    const key = cache.getKey(readTool, {});
+    cache.set(key, readTool, limits, result);
+
+    cache.invalidateServer('uuid-1');
+
+    expect(cache.get(key)).toBeUndefined();
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdirSync, mkdtempSync, realpathSync, rmSync, symlinkSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { buildSandboxCommand, resolveSandboxConfig } from '../src/sandbox';
+import { findExecutable } from '../src/utils';
+
+vi.mock('../src/utils.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/utils.js')>()),
+  findExecutable: vi.fn(),
+}));
+
+describe.runIf(process.platform === 'linux')('STDIO Sandbox', () => {
+  const installed = (...tools: string[]) => {
+    vi.mocked(findExecutable).mockImplementation((name) => (tools.includes(name) ? `/usr/bin/${name}` : undefined));
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    delete process.env.PLUGGEDIN_SANDBOX_STDIO;
+    delete process.env.PLUGGEDIN_CONFIG_FILE;
+  });
+
+  it('should only sandbox servers that opt in, unless sandboxing is enabled globally', () => {
+    const params = { uuid: 'uuid-1', name: 'community', type: 'STDIO' as const, command: 'node' };
+
+    expect(resolveSandboxConfig(params)).toBeUndefined();
+    expect(resolveSandboxConfig({ ...params, sandbox: true })).toEqual({});
+
+    process.env.PLUGGEDIN_SANDBOX_STDIO = 'true';
+    process.env.PLUGGEDIN_CONFIG_FILE = '/tmp/sandbox-test.yaml';
+    expect(resolveSandboxConfig(params)).toEqual({});
+    expect(resolveSandboxConfig({ ...params, sandbox: false })).toBeUndefined();
+  });
+
+  it('should not let servers from the plugged.in API opt out of or loosen the global sandbox', () => {
+    const params = { uuid: 'uuid-1', name: 'community', type: 'STDIO' as const, command: 'node' };
+    process.env.PLUGGEDIN_SANDBOX_STDIO = 'true';
+
+    expect(resolveSandboxConfig({ ...params, sandbox: false })).toEqual({});
+    expect(resolveSandboxConfig({
+      ...params,
+      sandbox: { network: true, filesystem: 'host', readOnlyPaths: ['/home'], writablePaths: ['/'] },
+    })).toEqual({});
+
+    // Without the global flag, a server's own sandbox settings are an opt-in and apply as given
+    delete process.env.PLUGGEDIN_SANDBOX_STDIO;
+    expect(resolveSandboxConfig({ ...params, sandbox: { network: true } })).toEqual({ network: true });
+  });
+
+  it('should run the server under bubblewrap without network or home directory by default', () => {
+    installed('bwrap');
+
+    const sandboxed = buildSandboxCommand('/usr/bin/python3', ['server.py'], { writablePaths: ['/srv/data'] }, '/srv/app')!;
+
+    expect(sandboxed.command).toBe('/usr/bin/bwrap');
+    expect(sandboxed.args).toContain('--unshare-all');
+    expect(sandboxed.args).not.toContain('--share-net');
+    expect(sandboxed.args.join(' ')).toContain('--setenv HOME /tmp');
+    expect(sandboxed.args.join(' ')).toContain('--ro-bind /srv/app /srv/app');
+    expect(sandboxed.args.join(' ')).toContain('--bind /srv/data /srv/data');
+    expect(sandboxed.args.join(' ')).not.toContain(process.env.HOME ?? '/root');
+    expect(sandboxed.args.join(' ')).toContain('--chdir /srv/app');
+    expect(sandboxed.args.slice(-3)).toEqual(['--', '/usr/bin/python3', 'server.py']);
+  });
+
+  it('should mount the node installation of an nvm npx', () => {
+    // nvm links bin/npx to npm's npx-cli.js, a node script two levels further down
+    const nvmDir = realpathSync(mkdtempSync(path.join(os.tmpdir(), 'nvm-')));
+    try {
+      const nodeDir = path.join(nvmDir, 'versions', 'node', 'v20.0.0');
+      mkdirSync(path.join(nodeDir, 'bin'), { recursive: true });
+      mkdirSync(path.join(nodeDir, 'lib', 'node_modules', 'npm', 'bin'), { recursive: true });
+      writeFileSync(path.join(nodeDir, 'bin', 'node'), '', { mode: 0o755 });
+      writeFileSync(path.join(nodeDir, 'lib', 'node_modules', 'npm', 'bin', 'npx-cli.js'), '#!/usr/bin/env node\n', { mode: 0o755 });
+      symlinkSync('../lib/node_modules/npm/bin/npx-cli.js', path.join(nodeDir, 'bin', 'npx'));
+      vi.mocked(findExecutable).mockImplementation((name) =>
+        name === 'bwrap' ? '/usr/bin/bwrap' : ['node', 'npx'].includes(name) ? path.join(nodeDir, 'bin', name) : undefined
+      );
+
+      const sandboxed = buildSandboxCommand('npx', ['-y', 'server'], {})!;
+
+      expect(sandboxed.args.join(' ')).toContain(`--ro-bind ${nodeDir} ${nodeDir}`);
+      expect(sandboxed.args.join(' ')).not.toContain(path.join(nodeDir, 'lib'));
+    } finally {
+      rmSync(nvmDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should share the network when allowed', () => {
+    installed('bwrap');
+
+    expect(buildSandboxCommand('/usr/bin/node', [], { network: true })!.args).toContain('--share-net');
+  });
+
+  it('should fall back to unshare only when the filesystem is not restricted', () => {
+    installed('unshare');
+
+    expect(buildSandboxCommand('/usr/bin/node', ['server.js'], {})).toBeUndefined();
+
+    const sandboxed = buildSandboxCommand('/usr/bin/node', ['server.js'], { filesystem: 'host' })!;
+    expect(sandboxed.command).toBe('/usr/bin/unshare');
+    expect(sandboxed.args).toContain('--net');
+    expect(sandboxed.args.slice(-3)).toEqual(['--', '/usr/bin/node', 'server.js']);
+  });
+});
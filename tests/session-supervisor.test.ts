@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SessionSupervisor } from '../src/session-supervisor';
+import { ConnectedClient } from '../src/client';
+
+// Downstream session whose transport close can be triggered by the test
+function createSession() {
+  const client = {} as { onclose?: () => void; onerror?: (error: Error) => void };
+  return { client, cleanup: vi.fn(async () => {}) } as unknown as ConnectedClient;
+}
+
+describe('Session Supervisor', () => {
+  let supervisor: SessionSupervisor;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    // No jitter: every delay is half of the exponential backoff
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    supervisor = new SessionSupervisor();
+    supervisor.configure({ pingIntervalMs: 0, baseReconnectDelayMs: 1000, maxReconnectDelayMs: 4000, downAfterAttempts: 3 });
+  });
+
+  afterEach(() => {
+    supervisor.detachAll();
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('should reconnect with exponential backoff until the server is back', async () => {
+    const reconnect = vi.fn().mockResolvedValue(undefined);
+    const onReconnected = vi.fn();
+    supervisor.attach('uuid-1', 'uuid-1_hash', 'echo', undefined, reconnect, undefined, onReconnected);
+    expect(supervisor.getUnavailableReason('uuid-1')).toBe(
+      'Server echo is reconnecting (attempt 1, next retry in 1s). Last error: Initial connection failed'
+    );
+
+    // Waits 500ms, 1s, then 2s once the 4s maximum is reached
+    for (const [delay, attempts] of [[499, 0], [1, 1], [999, 1], [1, 2], [1999, 2], [1, 3], [2000, 4]]) {
+      await vi.advanceTimersByTimeAsync(delay);
+      expect(reconnect).toHaveBeenCalledTimes(attempts);
+    }
+    expect(supervisor.getHealth('uuid-1')).toMatchObject({ state: 'down', reconnectAttempts: 4, restarts: 4 });
+    expect(supervisor.getUnavailableReason('uuid-1')).toBe(
+      'Server echo is down after 4 reconnect attempts; next retry in 2s. Last error: Reconnect failed'
+    );
+    expect(supervisor.isRecovering('uuid-1', 'uuid-1_hash')).toBe(true);
+
+    const session = createSession();
+    reconnect.mockResolvedValueOnce(session);
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(onReconnected).toHaveBeenCalledWith(session);
+    expect(supervisor.getHealth('uuid-1')).toMatchObject({ state: 'healthy', reconnectAttempts: 0 });
+    expect(supervisor.getUnavailableReason('uuid-1')).toBeUndefined();
+    expect(supervisor.isRecovering('uuid-1', 'uuid-1_hash')).toBe(false);
+  });
+
+  it('should hand over a reconnected session only while the server is still attached', async () => {
+    const session = createSession();
+    const reconnected = createSession();
+    let finishReconnect: (session: ConnectedClient) => void = () => {};
+    const reconnect = vi.fn(() => new Promise<ConnectedClient>((resolve) => { finishReconnect = resolve; }));
+    const onReconnected = vi.fn();
+    supervisor.attach('uuid-1', 'uuid-1_hash', 'echo', session, reconnect, undefined, onReconnected);
+
+    session.client.onclose!();
+    await vi.advanceTimersByTimeAsync(500);
+    expect(reconnect).toHaveBeenCalledTimes(1);
+
+    // The server is closed (e.g. its config changed) while the reconnect is still connecting
+    supervisor.detach('uuid-1');
+    finishReconnect(reconnected);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(onReconnected).not.toHaveBeenCalled();
+    expect(reconnected.cleanup).toHaveBeenCalled();
+  });
+
+  it('should stop reconnecting once maxRestarts is reached', async () => {
+    const session = createSession();
+    const reconnect = vi.fn().mockRejectedValue(new Error('spawn node ENOENT'));
+    supervisor.attach('uuid-1', 'uuid-1_hash', 'echo', session, reconnect, 2);
+
+    // The server exits
+    session.client.onclose!();
+    expect(session.cleanup).toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(reconnect).toHaveBeenCalledTimes(2);
+    expect(supervisor.getHealth('uuid-1')).toMatchObject({ state: 'stopped', restarts: 2 });
+    expect(supervisor.getUnavailableReason('uuid-1')).toBe(
+      'Server echo was stopped after 2 restarts. Last error: spawn node ENOENT'
+    );
+  });
+
+  it('should not report a connected or unknown server as unavailable', () => {
+    supervisor.attach('uuid-1', 'uuid-1_hash', 'echo', createSession(), vi.fn());
+
+    expect(supervisor.getUnavailableReason('uuid-1')).toBeUndefined();
+    expect(supervisor.getUnavailableReason('uuid-2')).toBeUndefined();
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { connectPluggedinMCPClient } from '../src/client';
+import { getMcpServers } from '../src/fetch-pluggedinmcp';
+import { sessionSupervisor } from '../src/session-supervisor';
+import { cleanupAllSessions, getSession, hasSession, initSessions, trackSessionRequest, warmUpSessions } from '../src/sessions';
+import { getSessionKey } from '../src/utils';
+import { ServerParameters } from '../src/types';
+
+vi.mock('../src/client.js', () => ({
+  connectPluggedinMCPClient: vi.fn(),
+}));
+
+vi.mock('../src/fetch-pluggedinmcp.js', () => ({
+  getMcpServers: vi.fn(),
+}));
+
+vi.mock('../src/session-supervisor.js', () => ({
+  sessionSupervisor: {
+    attach: vi.fn(),
+    detach: vi.fn(),
+    detachAll: vi.fn(),
+    isRecovering: vi.fn(() => false),
+  },
+}));
+
+describe('Sessions', () => {
+  const servers: Record<string, ServerParameters> = {
+    'uuid-lazy': { uuid: 'uuid-lazy', name: 'lazy', type: 'STDIO', command: 'node' },
+    'uuid-eager': { uuid: 'uuid-eager', name: 'eager', type: 'STDIO', command: 'node', eager: true },
+  };
+  const keyOf = (uuid: string) => getSessionKey(uuid, servers[uuid]);
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.mocked(getMcpServers).mockResolvedValue(servers);
+    vi.mocked(connectPluggedinMCPClient).mockImplementation(async () => ({ client: {} as any, cleanup: vi.fn(async () => {}) }));
+  });
+
+  afterEach(async () => {
+    await cleanupAllSessions();
+    vi.clearAllMocks();
+    vi.useRealTimers();
+    delete process.env.PLUGGEDIN_LAZY_SESSIONS;
+    delete process.env.PLUGGEDIN_SESSION_IDLE_TIMEOUT_MS;
+  });
+
+  it('should only start eager servers up front in lazy mode', async () => {
+    process.env.PLUGGEDIN_LAZY_SESSIONS = 'true';
+
+    await initSessions();
+
+    expect(hasSession(keyOf('uuid-eager'))).toBe(true);
+    expect(hasSession(keyOf('uuid-lazy'))).toBe(false);
+
+    await getSession(keyOf('uuid-lazy'), 'uuid-lazy', servers['uuid-lazy']);
+    expect(hasSession(keyOf('uuid-lazy'))).toBe(true);
+  });
+
+  it('should close idle sessions, but not while a request is in flight or for eager servers', async () => {
+    process.env.PLUGGEDIN_SESSION_IDLE_TIMEOUT_MS = '1000';
+    await warmUpSessions();
+    const session = (await getSession(keyOf('uuid-lazy'), 'uuid-lazy', servers['uuid-lazy']))!;
+
+    let finish: () => void = () => {};
+    const request = trackSessionRequest(keyOf('uuid-lazy'), new Promise<void>((resolve) => { finish = resolve; }));
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(hasSession(keyOf('uuid-lazy'))).toBe(true);
+
+    finish();
+    await request;
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(hasSession(keyOf('uuid-lazy'))).toBe(false);
+    expect(session.cleanup).toHaveBeenCalled();
+    expect(hasSession(keyOf('uuid-eager'))).toBe(true);
+  });
+
+  it('should not report a session the supervisor is reconnecting as running', async () => {
+    await getSession(keyOf('uuid-lazy'), 'uuid-lazy', servers['uuid-lazy']);
+    expect(hasSession(keyOf('uuid-lazy'))).toBe(true);
+
+    vi.mocked(sessionSupervisor.isRecovering).mockReturnValueOnce(true);
+    expect(hasSession(keyOf('uuid-lazy'))).toBe(false);
+  });
+
+  it('should only store a reconnected session once the supervisor hands it over', async () => {
+    await getSession(keyOf('uuid-lazy'), 'uuid-lazy', servers['uuid-lazy']);
+    const [, , , , reconnect, , onReconnected] = vi.mocked(sessionSupervisor.attach).mock.calls[0];
+
+    // Reconnecting alone does not replace the stored session, as the server may be closed meanwhile
+    const reconnected = (await reconnect())!;
+    expect(await getSession(keyOf('uuid-lazy'), 'uuid-lazy', servers['uuid-lazy'])).not.toBe(reconnected);
+
+    onReconnected!(reconnected);
+    expect(await getSession(keyOf('uuid-lazy'), 'uuid-lazy', servers['uuid-lazy'])).toBe(reconnected);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { PassThrough } from 'stream';
+import { StderrLog } from '../src/stderr-log';
+
+describe('Server Stderr Log', () => {
+  const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+  it('should split output into lines across chunks', async () => {
+    const log = new StderrLog();
+    log.configure({ forward: false });
+    const stream = new PassThrough();
+    log.attach('uuid-1', stream);
+
+    stream.write('first li');
+    stream.write('ne\nsecond line\r\nthird');
+    stream.end();
+    await flush();
+
+    expect(log.getLines('uuid-1').map((entry) => entry.line).slice(1)).toEqual(['first line', 'second line', 'third']);
+    expect(log.getLines('uuid-2')).toEqual([]);
+  });
+
+  it('should keep only the most recent lines and truncate long ones', async () => {
+    const log = new StderrLog();
+    log.configure({ forward: false, maxLines: 3, maxLineLength: 5 });
+    const stream = new PassThrough();
+    log.attach('uuid-1', stream);
+
+    stream.write('one\ntwo\nthree\nfour\nabcdefgh\n');
+    await flush();
+
+    expect(log.getLines('uuid-1').map((entry) => entry.line)).toEqual(['three', 'four', 'abcde...']);
+    expect(log.getLines('uuid-1', 1).map((entry) => entry.line)).toEqual(['abcde...']);
+  });
+
+  it('should keep the output of earlier processes when a server restarts', async () => {
+    const log = new StderrLog();
+    log.configure({ forward: false });
+    const crashed = new PassThrough();
+    log.attach('uuid-1', crashed);
+    crashed.end('fatal error\n');
+    await flush();
+
+    log.attach('uuid-1', new PassThrough());
+
+    const lines = log.getLines('uuid-1').map((entry) => entry.line);
+    expect(lines).toContain('fatal error');
+    expect(lines.filter((line) => line.startsWith('--- process started'))).toHaveLength(2);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { namespaceTools, describeToolCollisions } from '../src/tool-namespace';
+import { ServerParameters } from '../src/types';
+
+describe('Tool Namespacing', () => {
+  const inputSchema = { type: 'object' as const };
+  const tools = [
+    { name: 'search', inputSchema, _serverUuid: 'uuid-1', _serverName: 'GitHub Server' },
+    { name: 'create_issue', inputSchema, _serverUuid: 'uuid-1', _serverName: 'GitHub Server' },
+    { name: 'search', inputSchema, _serverUuid: 'uuid-2', _serverName: 'docs' }
+  ];
+  const serverParams: Record<string, ServerParameters> = {
+    'uuid-2': { uuid: 'uuid-2', name: 'docs', type: 'STDIO', toolPrefix: 'kb' }
+  };
+
+  it('should keep bare names and report duplicates when namespacing is off', () => {
+    const result = namespaceTools(tools, serverParams, 'off', '__');
+
+    expect(result.tools.map(tool => tool.name)).toEqual(['search', 'create_issue']);
+    expect(result.toolMap['search']).toEqual({ originalName: 'search', serverUuid: 'uuid-1', serverName: 'GitHub Server' });
+    expect(result.collisions).toEqual([{ name: 'search', servers: ['GitHub Server', 'docs'] }]);
+    expect(describeToolCollisions(result.collisions)).toEqual([
+      '"search" is exposed by GitHub Server, docs; using GitHub Server'
+    ]);
+  });
+
+  it('should prefix every tool with the server name or alias', () => {
+    const result = namespaceTools(tools, serverParams, 'always', '__');
+
+    expect(result.tools.map(tool => tool.name)).toEqual([
+      'github_server__search',
+      'github_server__create_issue',
+      'kb__search'
+    ]);
+    expect(result.toolMap['kb__search']).toEqual({ originalName: 'search', serverUuid: 'uuid-2', serverName: 'docs' });
+    expect(result.collisions).toEqual([]);
+  });
+
+  it('should only prefix duplicated names in on-collision mode', () => {
+    const result = namespaceTools(tools, serverParams, 'on-collision', '.');
+
+    expect(result.tools.map(tool => tool.name)).toEqual(['github_server.search', 'create_issue', 'kb.search']);
+    expect(result.toolMap['create_issue']).toEqual({ originalName: 'create_issue', serverUuid: 'uuid-1', serverName: 'GitHub Server' });
+  });
+
+  it('should report servers whose prefixes still collide', () => {
+    const sameAlias = { ...serverParams, 'uuid-1': { uuid: 'uuid-1', name: 'GitHub Server', type: 'STDIO' as const, toolPrefix: 'kb' } };
+    const result = namespaceTools(tools, sameAlias, 'always', '__');
+
+    expect(result.tools.map(tool => tool.name)).toEqual(['kb__search', 'kb__create_issue']);
+    expect(result.collisions).toEqual([{ name: 'kb__search', servers: ['GitHub Server', 'docs'] }]);
+  });
+});
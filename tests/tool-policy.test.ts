@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { ToolPolicyRegistry, isToolPermitted, getConnectionIdentity, ToolPolicyConfigSchema } from '../src/tool-policy';
+
+describe('Tool Policies', () => {
+  const deleteTool = { serverName: 'github', toolName: 'github__delete_repo', originalName: 'delete_repo' };
+  const readTool = { serverName: 'github', toolName: 'github__get_issue', originalName: 'get_issue' };
+  const staticTool = { serverName: 'pluggedin', toolName: 'pluggedin_rag_query' };
+
+  it('should allow everything without a policy', () => {
+    expect(isToolPermitted(undefined, deleteTool)).toBe(true);
+  });
+
+  it('should let deny rules win over allow rules', () => {
+    const access = { allow: ['*'], deny: ['*__delete_*'] };
+
+    expect(isToolPermitted(access, deleteTool)).toBe(false);
+    expect(isToolPermitted(access, readTool)).toBe(true);
+  });
+
+  it('should match tool globs against original names and server globs against server names', () => {
+    expect(isToolPermitted({ deny: ['delete_*'] }, deleteTool)).toBe(false);
+    expect(isToolPermitted({ allow: [{ server: 'pluggedin' }] }, readTool)).toBe(false);
+    expect(isToolPermitted({ allow: [{ server: 'pluggedin' }] }, staticTool)).toBe(true);
+    expect(isToolPermitted({ allow: [{ server: 'git*', tool: 'get_?ssue' }] }, readTool)).toBe(true);
+  });
+
+  it('should resolve the first matching policy and fall back to the default', () => {
+    const registry = new ToolPolicyRegistry();
+    registry.configure(ToolPolicyConfigSchema.parse({
+      default: { deny: ['*'] },
+      policies: [
+        { name: 'read-only', match: { profile: 'readonly' }, deny: ['*__delete_*'] },
+        { name: 'ci', match: { apiKey: 'ci-key' }, allow: [{ server: 'github' }] }
+      ]
+    }));
+
+    expect(registry.resolve({ profile: 'readonly' })).toMatchObject({ name: 'read-only' });
+    expect(registry.resolve({ apiKey: 'ci-key', profile: 'other' })).toMatchObject({ name: 'ci' });
+    expect(registry.resolve({})).toEqual({ deny: ['*'] });
+  });
+
+  it('should reject policies without match criteria', () => {
+    const result = ToolPolicyConfigSchema.safeParse({ policies: [{ name: 'any', match: {} }] });
+    expect(result.success).toBe(false);
+  });
+
+  it('should read the connection identity from request headers', () => {
+    const identity = getConnectionIdentity({
+      sessionId: 'session-1',
+      requestInfo: { headers: { authorization: 'Bearer key-1', 'x-pluggedin-profile': 'readonly' } }
+    } as any);
+
+    expect(identity).toEqual({ apiKey: 'key-1', sessionId: 'session-1', profile: 'readonly' });
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { getToolTimeoutMs } from '../src/utils';
+import { ServerParameters } from '../src/types';
+
+describe('Utils', () => {
+  const server: ServerParameters = { uuid: 'uuid-1', name: 'echo', type: 'STDIO', command: 'node' };
+
+  afterEach(() => {
+    delete process.env.PLUGGEDIN_TOOL_TIMEOUT_MS;
+  });
+
+  it('should prefer the per-tool, then per-server, then global tool timeout over the default', () => {
+    process.env.PLUGGEDIN_TOOL_TIMEOUT_MS = '90000';
+    const configured = { ...server, toolTimeoutMs: 120000, toolTimeouts: { build: 600000 } };
+
+    expect(getToolTimeoutMs(configured, 'build')).toBe(600000);
+    expect(getToolTimeoutMs(configured, 'echo')).toBe(120000);
+    expect(getToolTimeoutMs(server, 'echo')).toBe(90000);
+
+    delete process.env.PLUGGEDIN_TOOL_TIMEOUT_MS;
+    expect(getToolTimeoutMs(server, 'echo')).toBe(60000);
+  });
+
+  it('should ignore invalid timeouts', () => {
+    process.env.PLUGGEDIN_TOOL_TIMEOUT_MS = 'soon';
+
+    expect(getToolTimeoutMs({ ...server, toolTimeoutMs: 0, toolTimeouts: { echo: -1 } }, 'echo')).toBe(60000);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { AddressInfo } from 'net';
+import { WebSocketServer } from 'ws';
+import { WebSocketClientTransport } from '../src/websocket-transport';
+
+describe('WebSocket Client Transport', () => {
+  let server: WebSocketServer;
+  let url: URL;
+
+  beforeEach(async () => {
+    server = new WebSocketServer({ port: 0, handleProtocols: (protocols) => (protocols.has('mcp') ? 'mcp' : false) });
+    await new Promise((resolve) => server.once('listening', resolve));
+    url = new URL(`ws://127.0.0.1:${(server.address() as AddressInfo).port}`);
+  });
+
+  afterEach(async () => {
+    server.clients.forEach((client) => client.terminate());
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should send headers and the mcp subprotocol with the upgrade request', async () => {
+    const upgrade = new Promise<{ authorization?: string; protocol: string }>((resolve) => {
+      server.once('connection', (socket, request) => resolve({ authorization: request.headers.authorization, protocol: socket.protocol }));
+    });
+    const transport = new WebSocketClientTransport(url, { headers: { Authorization: 'Bearer token' } });
+
+    await transport.start();
+
+    await expect(upgrade).resolves.toEqual({ authorization: 'Bearer token', protocol: 'mcp' });
+    await transport.close();
+  });
+
+  it('should exchange JSON-RPC messages and report the closed connection', async () => {
+    server.on('connection', (socket) => {
+      socket.on('message', (data) => {
+        const request = JSON.parse(data.toString());
+        socket.send(JSON.stringify({ jsonrpc: '2.0', id: request.id, result: {} }));
+        socket.close();
+      });
+    });
+    const transport = new WebSocketClientTransport(url);
+    const response = new Promise((resolve) => { transport.onmessage = resolve; });
+    const closed = new Promise<void>((resolve) => { transport.onclose = resolve; });
+
+    await transport.start();
+    await transport.send({ jsonrpc: '2.0', id: 1, method: 'ping' });
+
+    await expect(response).resolves.toEqual({ jsonrpc: '2.0', id: 1, result: {} });
+    await closed;
+    await expect(transport.send({ jsonrpc: '2.0', id: 2, method: 'ping' })).rejects.toThrow('Not connected');
+  });
+
+  it('should fail to start when the server rejects the subprotocol', async () => {
+    const transport = new WebSocketClientTransport(url, { subprotocols: ['other'] });
+    transport.onerror = () => {};
+
+    await expect(transport.start()).rejects.toThrow();
+  });
+});